@@ -8,6 +8,7 @@ import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import NotFound from "./pages/NotFound";
 import Pricing from "./pages/Pricing";
+import History from "./pages/History";
 import { AuthProvider } from "./context/AuthContext";
 import { SvgAnalyzer } from "./components/SvgAnalyzer";
 
@@ -25,6 +26,7 @@ const App = () => (
               <Route path="/" element={<Index />} />
               <Route path="/auth" element={<Auth />} />
               <Route path="/pricing" element={<Pricing />} />
+              <Route path="/history" element={<History />} />
               <Route path="/svg-analyzer" element={<SvgAnalyzer />} />
               <Route path="*" element={<NotFound />} />
             </Routes>
@@ -11,13 +11,22 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import ProviderSelector from '@/components/ProviderSelector';
+import { ProviderSettings } from '@/integrations/providers';
 
 interface ApiKeyInputProps {
   apiKey: string;
   onApiKeyChange: (key: string) => void;
+  providerSettings?: ProviderSettings;
+  onProviderSettingsChange?: (settings: ProviderSettings) => void;
 }
 
-const ApiKeyInput: React.FC<ApiKeyInputProps> = ({ apiKey, onApiKeyChange }) => {
+const ApiKeyInput: React.FC<ApiKeyInputProps> = ({
+  apiKey,
+  onApiKeyChange,
+  providerSettings,
+  onProviderSettingsChange
+}) => {
   const [showApiKey, setShowApiKey] = useState(false);
   const [inputKey, setInputKey] = useState(apiKey);
   const { apiKey: authApiKey } = useAuth();
@@ -84,6 +93,12 @@ const ApiKeyInput: React.FC<ApiKeyInputProps> = ({ apiKey, onApiKeyChange }) =>
       
       <div className="p-4 space-y-3">
         <div className="flex gap-2">
+          {providerSettings && onProviderSettingsChange && (
+            <ProviderSelector
+              settings={providerSettings}
+              onSettingsChange={onProviderSettingsChange}
+            />
+          )}
           <div className="relative flex-1">
             <Input
               type={showApiKey ? "text" : "password"}
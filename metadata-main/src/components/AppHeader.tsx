@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { FileType, Eye, EyeOff, CreditCard, Facebook, Video, FileVideo } from 'lucide-react';
+import { FileType, Eye, EyeOff, CreditCard, Facebook, Video, FileVideo, History } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { useAuth } from '@/context/AuthContext';
@@ -8,15 +8,21 @@ import { useNavigate } from 'react-router-dom';
 import UserProfile from '@/components/UserProfile';
 import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/ui/hover-card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import ProviderSelector from '@/components/ProviderSelector';
+import { ProviderSettings } from '@/integrations/providers';
 interface AppHeaderProps {
   remainingCredits: string | number;
   apiKey: string;
   onApiKeyChange: (key: string) => void;
+  providerSettings?: ProviderSettings;
+  onProviderSettingsChange?: (settings: ProviderSettings) => void;
 }
 const AppHeader: React.FC<AppHeaderProps> = ({
   remainingCredits,
   apiKey,
-  onApiKeyChange
+  onApiKeyChange,
+  providerSettings,
+  onProviderSettingsChange
 }) => {
   const [showApiKey, setShowApiKey] = useState(false);
   const [inputKey, setInputKey] = useState(apiKey);
@@ -95,6 +101,11 @@ const AppHeader: React.FC<AppHeaderProps> = ({
                 Pricing
               </Button>
               
+              <Button variant="outline" size="sm" className="text-cyan-500 border-cyan-700 hover:bg-cyan-900/50 hover:text-cyan-400 transition-all duration-300 hover:shadow-lg transform hover:-translate-y-1" onClick={() => navigate('/history')}>
+                <History className="h-4 w-4 mr-1" />
+                History
+              </Button>
+              
               <Button variant="outline" size="sm" className="text-green-500 border-green-700 hover:bg-green-900/50 hover:text-green-400 transition-all duration-300 hover:shadow-lg transform hover:-translate-y-1" onClick={openTutorialVideo}>
                 <Video className="h-4 w-4 mr-1" />
                 Tutorial
@@ -111,6 +122,8 @@ const AppHeader: React.FC<AppHeaderProps> = ({
               </Button>
             </>}
           
+          {providerSettings && onProviderSettingsChange && <ProviderSelector settings={providerSettings} onSettingsChange={onProviderSettingsChange} />}
+          
           <div className="flex items-center">
             <span className="text-sm mr-2 text-[#ff0000]">API Key:</span>
             <div className="relative flex-1">
@@ -0,0 +1,71 @@
+import React from 'react';
+import { ChevronDown, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { DropdownMenu, DropdownMenuCheckboxItem, DropdownMenuContent, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+
+interface CategoryPickerProps {
+  categories: string[];
+  options: string[];
+  maxItems: number;
+  onChange: (categories: string[]) => void;
+}
+
+// Pick categories from a platform's list, up to the number it accepts
+const CategoryPicker: React.FC<CategoryPickerProps> = ({
+  categories,
+  options,
+  maxItems,
+  onChange
+}) => {
+  const toggleCategory = (category: string, checked: boolean) => {
+    if (!checked) {
+      onChange(categories.filter(item => item !== category));
+    } else if (maxItems === 1) {
+      onChange([category]);
+    } else if (categories.length < maxItems) {
+      onChange([...categories, category]);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {categories.map(category => (
+        <span key={category} className="flex items-center gap-1 bg-purple-600 text-white text-xs pl-3 pr-1 py-1 rounded-full">
+          {category}
+          <button
+            type="button"
+            onClick={() => toggleCategory(category, false)}
+            className="rounded-full p-0.5 hover:bg-purple-800"
+            aria-label={`Remove ${category}`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      ))}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="h-7 gap-1 text-xs">
+            {categories.length === 0 ? 'Choose' : 'Change'}
+            <ChevronDown className="h-3 w-3" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent className="max-h-72 overflow-auto">
+          {options.map(option => (
+            <DropdownMenuCheckboxItem
+              key={option}
+              checked={categories.includes(option)}
+              disabled={maxItems > 1 && !categories.includes(option) && categories.length >= maxItems}
+              onCheckedChange={checked => toggleCategory(option, checked)}
+              className="text-xs"
+            >
+              {option}
+            </DropdownMenuCheckboxItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <span className="text-xs text-gray-500">{categories.length}/{maxItems}</span>
+    </div>
+  );
+};
+
+export default CategoryPicker;
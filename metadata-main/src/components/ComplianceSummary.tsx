@@ -0,0 +1,46 @@
+import React from 'react';
+import { ClipboardCheck, Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ImageCompliance, summarizeCompliance } from '@/utils/complianceCheck';
+
+interface ComplianceSummaryProps {
+  results: ImageCompliance[];
+  onExportReport: () => void;
+}
+
+const ComplianceSummary: React.FC<ComplianceSummaryProps> = ({
+  results,
+  onExportReport
+}) => {
+  if (results.length === 0) return null;
+
+  const summary = summarizeCompliance(results);
+  const flagged = results.filter(result => result.status !== 'pass');
+
+  return (
+    <div className="rounded-lg border border-gray-700 bg-gray-800/30 p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-gray-200">
+          <ClipboardCheck className="h-4 w-4" />
+          <h3 className="text-sm font-medium">Platform Compliance</h3>
+          <span className="text-xs text-green-400">{summary.pass} pass</span>
+          <span className="text-xs text-yellow-400">{summary.warn} warn</span>
+          <span className="text-xs text-red-400">{summary.fail} fail</span>
+        </div>
+        <Button variant="outline" size="sm" onClick={onExportReport} className="flex items-center gap-1">
+          <Download className="h-4 w-4" />
+          <span>Export Report</span>
+        </Button>
+      </div>
+
+      {flagged.map(({ image, status, issues }) => (
+        <p key={image.id} className="text-xs text-gray-400 truncate" title={issues.map(issue => `${issue.platform} ${issue.field}: ${issue.message}`).join('\n')}>
+          <span className={status === 'fail' ? 'text-red-400' : 'text-yellow-400'}>{image.file.name}</span>
+          {' '}{issues.length} issue{issues.length === 1 ? '' : 's'}: {issues.map(issue => issue.message).join('; ')}
+        </p>
+      ))}
+    </div>
+  );
+};
+
+export default ComplianceSummary;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LineEnding } from '@/utils/csv';
+import { CsvExportSettings } from '@/utils/platformExporters';
+
+interface CsvExportControlsProps {
+  settings: CsvExportSettings;
+  onSettingsChange: (settings: CsvExportSettings) => void;
+}
+
+const CsvExportControls: React.FC<CsvExportControlsProps> = ({
+  settings,
+  onSettingsChange
+}) => {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="csv-bom" className="text-xs text-gray-400">
+          UTF-8 BOM (for Excel)
+        </Label>
+        <Switch
+          id="csv-bom"
+          checked={settings.bom}
+          onCheckedChange={bom => onSettingsChange({ ...settings, bom })}
+        />
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <Label className="text-xs text-gray-400">Line endings</Label>
+        <Select
+          value={settings.lineEnding === '\r\n' ? 'crlf' : 'lf'}
+          onValueChange={value => onSettingsChange({ ...settings, lineEnding: (value === 'crlf' ? '\r\n' : '\n') as LineEnding })}
+        >
+          <SelectTrigger className="h-8 w-36 bg-gray-800 border-gray-700 text-gray-200 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="crlf" className="text-xs">Windows (CRLF)</SelectItem>
+            <SelectItem value="lf" className="text-xs">Unix (LF)</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+};
+
+export default CsvExportControls;
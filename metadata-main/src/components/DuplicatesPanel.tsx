@@ -0,0 +1,91 @@
+import React from 'react';
+import { Layers } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ProcessedImage } from '@/utils/imageHelpers';
+
+// How near-duplicate images in a batch are processed
+export type DuplicateMode = 'separate' | 'share' | 'vary';
+
+interface DuplicatesPanelProps {
+  clusters: ProcessedImage[][];
+  // Queued images that look like something already in the user's history
+  historyMatches: ProcessedImage[];
+  mode: DuplicateMode;
+  onModeChange: (mode: DuplicateMode) => void;
+  onSkipDuplicates: () => void;
+}
+
+const modeDescriptions: Record<DuplicateMode, string> = {
+  separate: 'Each image is generated on its own.',
+  share: 'Only the first image of each group is generated; the others get the same metadata.',
+  vary: 'Each image is generated with a title that differs from the rest of its group.',
+};
+
+const DuplicatesPanel: React.FC<DuplicatesPanelProps> = ({
+  clusters,
+  historyMatches,
+  mode,
+  onModeChange,
+  onSkipDuplicates
+}) => {
+  if (clusters.length === 0 && historyMatches.length === 0) return null;
+
+  // Queued images other than the first of their group
+  const skippableCount = clusters.reduce((count, cluster) => count + cluster.slice(1).filter(img => img.status === 'pending').length, 0);
+
+  return (
+    <div className="rounded-lg border border-yellow-700/50 bg-yellow-900/10 p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-yellow-400">
+          <Layers className="h-4 w-4" />
+          <h3 className="text-sm font-medium">Near-duplicates</h3>
+        </div>
+        {clusters.length > 0 && (
+          <div className="flex items-center gap-2">
+            <Select value={mode} onValueChange={value => onModeChange(value as DuplicateMode)}>
+              <SelectTrigger className="h-8 w-44 bg-gray-800 border-gray-700 text-gray-200 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="separate" className="text-xs">Generate each</SelectItem>
+                <SelectItem value="share" className="text-xs">Share one generation</SelectItem>
+                <SelectItem value="vary" className="text-xs">Vary titles</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onSkipDuplicates}
+              disabled={skippableCount === 0}
+            >
+              Skip Duplicates{skippableCount > 0 ? ` (${skippableCount})` : ''}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {clusters.length > 0 && <p className="text-xs text-gray-500">{modeDescriptions[mode]}</p>}
+
+      {clusters.map((cluster, index) => (
+        <div key={cluster[0].id} className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-gray-400">Group {index + 1}:</span>
+          {cluster.map(img => (
+            <div key={img.id} className="h-8 w-8 overflow-hidden rounded border border-gray-700 bg-gray-700" title={img.file.name}>
+              <img src={img.previewUrl} alt={img.file.name} className="h-full w-full object-cover" />
+            </div>
+          ))}
+          <span className="text-xs text-gray-400 truncate max-w-md">{cluster.map(img => img.file.name).join(', ')}</span>
+        </div>
+      ))}
+
+      {historyMatches.map(img => (
+        <p key={img.id} className="text-xs text-gray-400">
+          {img.file.name} looks like {img.historyMatch.filename}, processed {new Date(img.historyMatch.createdAt).toLocaleDateString()}
+        </p>
+      ))}
+    </div>
+  );
+};
+
+export default DuplicatesPanel;
@@ -0,0 +1,75 @@
+import React, { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { countWords } from '@/utils/imageHelpers';
+
+interface EditableTextProps {
+  value: string;
+  onChange: (value: string) => void;
+  multiline?: boolean;
+  minWords?: number;
+  maxWords?: number;
+  maxLength?: number;
+  ariaLabel: string;
+}
+
+// Text field that saves on blur, with live word and character counts against the limits
+const EditableText: React.FC<EditableTextProps> = ({
+  value,
+  onChange,
+  multiline = false,
+  minWords,
+  maxWords,
+  maxLength,
+  ariaLabel
+}) => {
+  const [draft, setDraft] = useState(value);
+
+  // Pick up changes made outside the field, such as an import or undo
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  const commit = () => {
+    if (draft !== value) {
+      onChange(draft.trim());
+    }
+  };
+
+  const words = countWords(draft);
+  const wordsOutOfRange = (minWords !== undefined && words < minWords) || (maxWords !== undefined && words > maxWords);
+  const tooLong = maxLength !== undefined && draft.length > maxLength;
+
+  const fieldProps = {
+    value: draft,
+    'aria-label': ariaLabel,
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => setDraft(e.target.value),
+    onBlur: commit,
+    className: 'bg-gray-900/60 border-gray-700 text-white',
+  };
+
+  return (
+    <div className="space-y-1">
+      {multiline ? (
+        <Textarea {...fieldProps} rows={3} />
+      ) : (
+        <Input
+          {...fieldProps}
+          onKeyDown={e => {
+            if (e.key === 'Enter') e.currentTarget.blur();
+          }}
+        />
+      )}
+      <div className="flex gap-3 text-xs">
+        <span className={wordsOutOfRange ? 'text-red-400' : 'text-gray-500'}>
+          {words} words{minWords !== undefined && maxWords !== undefined ? ` (${minWords}-${maxWords})` : ''}
+        </span>
+        <span className={tooLong ? 'text-red-400' : 'text-gray-500'}>
+          {draft.length}{maxLength !== undefined ? `/${maxLength}` : ''} characters
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default EditableText;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+// How metadata already embedded in a file is combined with the model output
+export type ExistingMetadataMode = 'keep' | 'merge' | 'replace';
+
+interface ExistingMetadataSelectorProps {
+  mode: ExistingMetadataMode;
+  onModeChange: (mode: ExistingMetadataMode) => void;
+}
+
+const modeDescriptions: Record<ExistingMetadataMode, string> = {
+  keep: 'Existing title, description and keywords are kept; the model fills in what is missing.',
+  merge: 'The model writes the title and description; existing keywords come first in the list.',
+  replace: 'The model output replaces the existing metadata.',
+};
+
+const ExistingMetadataSelector: React.FC<ExistingMetadataSelectorProps> = ({
+  mode,
+  onModeChange
+}) => {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Label className="text-xs text-gray-400">Embedded metadata</Label>
+        <Select value={mode} onValueChange={value => onModeChange(value as ExistingMetadataMode)}>
+          <SelectTrigger className="h-8 w-36 bg-gray-800 border-gray-700 text-gray-200 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="keep" className="text-xs">Keep</SelectItem>
+            <SelectItem value="merge" className="text-xs">Merge</SelectItem>
+            <SelectItem value="replace" className="text-xs">Replace</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <p className="text-xs text-gray-500">{modeDescriptions[mode]}</p>
+    </div>
+  );
+};
+
+export default ExistingMetadataSelector;
@@ -3,6 +3,8 @@ import { Button } from '@/components/ui/button';
 import { Upload, X, FileIcon, Image, AlertCircle } from 'lucide-react';
 import { toast } from 'sonner';
 import { ProcessedImage, createImagePreview, generateId, isValidMediaType, isValidFileSize, formatFileSize } from '@/utils/imageHelpers';
+import { readEmbeddedMetadata } from '@/utils/readMetadata';
+import { computePerceptualHash } from '@/utils/perceptualHash';
 
 interface ImageUploaderProps {
   onImagesSelected: (images: ProcessedImage[]) => void;
@@ -45,12 +47,18 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({
         }
 
         try {
-          const previewUrl = await createImagePreview(file);
+          const [previewUrl, embeddedMetadata] = await Promise.all([
+            createImagePreview(file),
+            readEmbeddedMetadata(file)
+          ]);
+          const perceptualHash = await computePerceptualHash(previewUrl);
           return {
             id: generateId(),
             file,
             previewUrl,
-            status: 'pending' as const
+            status: 'pending' as const,
+            embeddedMetadata: embeddedMetadata || undefined,
+            perceptualHash: perceptualHash || undefined
           };
         } catch (error) {
           console.error(`Error processing ${file.name}:`, error);
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { Pin, X } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { applyPinnedKeywords } from '@/utils/keywordRanking';
+
+interface KeywordEditorProps {
+  keywords: string[];
+  // Pinned keywords stay at the front whatever the edit
+  pinned?: string[];
+  onChange: (keywords: string[], pinned: string[]) => void;
+  minKeywords?: number;
+  maxKeywords?: number;
+  // Leading keywords the platform weighs most, set apart from the rest
+  topCount?: number;
+}
+
+// Keyword chips that can be removed, added, pinned and dragged into a new order
+const KeywordEditor: React.FC<KeywordEditorProps> = ({
+  keywords,
+  pinned = [],
+  onChange,
+  minKeywords,
+  maxKeywords,
+  topCount
+}) => {
+  const [input, setInput] = useState('');
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const update = (next: string[], nextPinned = pinned) => {
+    const ordered = applyPinnedKeywords(next, nextPinned);
+    onChange(ordered.keywords, ordered.pinned);
+  };
+
+  const togglePin = (keyword: string) => {
+    update(keywords, pinned.includes(keyword) ? pinned.filter(item => item !== keyword) : [...pinned, keyword]);
+  };
+
+  // Add one or more comma-separated keywords, skipping ones already in the list
+  const addKeywords = (text: string) => {
+    const existing = new Set(keywords.map(keyword => keyword.toLowerCase()));
+    const added = text
+      .split(/[,;\n]/)
+      .map(keyword => keyword.trim())
+      .filter(keyword => {
+        if (!keyword || existing.has(keyword.toLowerCase())) return false;
+        existing.add(keyword.toLowerCase());
+        return true;
+      });
+    if (added.length > 0) {
+      update([...keywords, ...added]);
+    }
+    setInput('');
+  };
+
+  const handleDrop = (targetIndex: number) => {
+    if (dragIndex === null || dragIndex === targetIndex) return;
+    const reordered = [...keywords];
+    const [moved] = reordered.splice(dragIndex, 1);
+    reordered.splice(targetIndex, 0, moved);
+    update(reordered);
+    setDragIndex(null);
+  };
+
+  const outOfRange = (minKeywords !== undefined && keywords.length < minKeywords) ||
+    (maxKeywords !== undefined && keywords.length > maxKeywords);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        {keywords.length > 0 ? (
+          keywords.map((keyword, index) => {
+            const isPinned = pinned.includes(keyword);
+            const isTop = topCount === undefined || index < topCount;
+            return (
+              <React.Fragment key={`${keyword}-${index}`}>
+                {topCount !== undefined && index === topCount && (
+                  <span className="basis-full border-t border-dashed border-gray-600 pt-1 text-[10px] text-gray-500">
+                    Top {topCount} above
+                  </span>
+                )}
+                <span
+                  draggable
+                  onDragStart={() => setDragIndex(index)}
+                  onDragOver={e => e.preventDefault()}
+                  onDrop={() => handleDrop(index)}
+                  onDragEnd={() => setDragIndex(null)}
+                  className={`flex items-center gap-1 ${isTop ? 'bg-blue-600' : 'bg-blue-900/70'} text-white text-xs pl-3 pr-1 py-1 rounded-full cursor-move ${dragIndex === index ? 'opacity-50' : ''}`}
+                >
+                  {keyword}
+                  <button
+                    type="button"
+                    onClick={() => togglePin(keyword)}
+                    className={`rounded-full p-0.5 hover:bg-blue-800 ${isPinned ? 'text-amber-300' : 'text-blue-200/60'}`}
+                    aria-label={`${isPinned ? 'Unpin' : 'Pin'} ${keyword}`}
+                    aria-pressed={isPinned}
+                  >
+                    <Pin className="h-3 w-3" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => update(keywords.filter((_, i) => i !== index))}
+                    className="rounded-full p-0.5 hover:bg-blue-800"
+                    aria-label={`Remove ${keyword}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              </React.Fragment>
+            );
+          })
+        ) : (
+          <span className="text-gray-400">No keywords available</span>
+        )}
+      </div>
+      <Input
+        value={input}
+        onChange={e => setInput(e.target.value)}
+        onKeyDown={e => {
+          if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            addKeywords(input);
+          }
+        }}
+        onBlur={() => input.trim() && addKeywords(input)}
+        placeholder="Add keywords, separated by commas"
+        className="h-8 bg-gray-900/60 border-gray-700 text-white text-xs"
+      />
+      <p className={`text-xs ${outOfRange ? 'text-red-400' : 'text-gray-500'}`}>
+        {keywords.length} keywords{minKeywords !== undefined && maxKeywords !== undefined ? ` (${minKeywords}-${maxKeywords})` : ''}
+      </p>
+    </div>
+  );
+};
+
+export default KeywordEditor;
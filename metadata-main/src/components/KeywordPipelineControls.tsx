@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { KeywordPipelineSettings } from '@/utils/keywordPipeline';
+
+interface KeywordPipelineControlsProps {
+  settings: KeywordPipelineSettings;
+  onSettingsChange: (settings: KeywordPipelineSettings) => void;
+}
+
+type PipelineStep = Exclude<keyof KeywordPipelineSettings, 'bannedTerms'>;
+
+const steps: { key: PipelineStep; label: string }[] = [
+  { key: 'normalize', label: 'Lowercase and trim' },
+  { key: 'mergeInflections', label: 'Merge singular and plural' },
+  { key: 'removeStopWords', label: 'Remove stop words' },
+  { key: 'removeBannedTerms', label: 'Remove banned terms' },
+  { key: 'applyPhraseRules', label: 'Platform phrase rules' },
+  { key: 'rankByRelevance', label: 'Rank by relevance' },
+  { key: 'enforceCount', label: 'Fit keyword range' },
+];
+
+const KeywordPipelineControls: React.FC<KeywordPipelineControlsProps> = ({
+  settings,
+  onSettingsChange
+}) => {
+  // Edited as text and saved on blur, so typing a comma doesn't drop the empty term
+  const [bannedText, setBannedText] = useState(settings.bannedTerms.join(', '));
+
+  useEffect(() => {
+    setBannedText(settings.bannedTerms.join(', '));
+  }, [settings.bannedTerms]);
+
+  return (
+    <div className="space-y-3">
+      {steps.map(step => (
+        <div key={step.key} className="flex items-center justify-between">
+          <Label htmlFor={`keyword-${step.key}`} className="text-xs text-gray-400">
+            {step.label}
+          </Label>
+          <Switch
+            id={`keyword-${step.key}`}
+            checked={settings[step.key]}
+            onCheckedChange={checked => onSettingsChange({ ...settings, [step.key]: checked })}
+          />
+        </div>
+      ))}
+
+      {settings.removeBannedTerms && (
+        <div className="space-y-1">
+          <Label htmlFor="keyword-banned-terms" className="text-xs text-gray-400">Banned terms</Label>
+          <Textarea
+            id="keyword-banned-terms"
+            value={bannedText}
+            onChange={e => setBannedText(e.target.value)}
+            onBlur={() => onSettingsChange({
+              ...settings,
+              bannedTerms: bannedText.split(/[,\n]/).map(term => term.trim()).filter(Boolean)
+            })}
+            placeholder="Comma-separated, e.g. brand names"
+            className="min-h-[60px] bg-gray-800 border-gray-700 text-gray-200 text-xs"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default KeywordPipelineControls;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getModelInfo, getModelsForProvider, ProviderSettings } from '@/integrations/providers';
+
+interface ModelSelectorProps {
+  settings: ProviderSettings;
+  onSettingsChange: (settings: ProviderSettings) => void;
+}
+
+const ModelSelector: React.FC<ModelSelectorProps> = ({
+  settings,
+  onSettingsChange
+}) => {
+  const models = getModelsForProvider(settings.id);
+  const selected = getModelInfo(settings.model);
+
+  return (
+    <div>
+      <Select value={settings.model} onValueChange={model => onSettingsChange({ ...settings, model })}>
+        <SelectTrigger className="h-8 bg-gray-800 border-gray-700 text-gray-200 text-xs">
+          <SelectValue placeholder="Model" />
+        </SelectTrigger>
+        <SelectContent>
+          {models.map(model => (
+            <SelectItem key={model.id} value={model.id} className="text-xs">
+              {model.name}
+            </SelectItem>
+          ))}
+          {/* Models entered in the provider settings that aren't in the registry */}
+          {settings.model && !selected && (
+            <SelectItem value={settings.model} className="text-xs">
+              {settings.model}
+            </SelectItem>
+          )}
+        </SelectContent>
+      </Select>
+
+      <p className="text-xs text-gray-400 mt-2">
+        {selected
+          ? `${selected.vision ? 'Vision' : 'Text only'}${selected.jsonMode ? ', JSON mode' : ''} · ${selected.inputTokenLimit.toLocaleString()} input / ${selected.outputTokenLimit.toLocaleString()} output tokens`
+          : 'Custom model; capabilities unknown'}
+      </p>
+      <p className="text-xs text-gray-500 mt-1">
+        If this model is retired, the next available model is used automatically.
+      </p>
+    </div>
+  );
+};
+
+export default ModelSelector;
@@ -1,65 +1,77 @@
 
-import React from 'react';
+import React, { useRef, useState } from 'react';
 import { cn } from "@/lib/utils";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import { Camera, Crown, Diamond, Box, CircleIcon } from 'lucide-react';
+import { Camera, Crown, Diamond, Box, CircleIcon, Store, Plus, X } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  addCustomPlatforms,
+  getPlatformDefinitions,
+  isCustomPlatform,
+  parsePlatformDefinitions,
+  Platform,
+  removeCustomPlatform
+} from '@/utils/platformDefinitions';
 
-export type Platform = 'Freepik' | 'AdobeStock' | 'Shutterstock' | 'Vecteezy' | 'Canva' | '123RF' | 'Dreamstime';
+export type { Platform } from '@/utils/platformDefinitions';
 
 interface PlatformSelectorProps {
   selectedPlatforms: Platform[];
   onPlatformChange: (platforms: Platform[]) => void;
 }
 
-const platforms: {
-  id: Platform;
-  icon: React.ReactNode;
-  name: string;
-}[] = [
-  {
-    id: 'Freepik',
-    icon: <Crown className="h-5 w-5 text-yellow-400" />,
-    name: 'Freepik'
-  },
-  {
-    id: 'AdobeStock',
-    icon: <span className="text-sm font-bold">St</span>,
-    name: 'AdobeStock'
-  },
-  {
-    id: 'Shutterstock',
-    icon: <Camera className="h-5 w-5 text-blue-400" />,
-    name: 'Shutterstock'
-  },
-  {
-    id: 'Vecteezy',
-    icon: <Diamond className="h-5 w-5 text-orange-500" />,
-    name: 'Vecteezy'
-  },
-  {
-    id: 'Canva',
-    icon: <Diamond className="h-5 w-5 text-blue-500" />,
-    name: 'Canva'
-  },
-  {
-    id: '123RF',
-    icon: <Box className="h-5 w-5 text-purple-400" />,
-    name: '123RF'
-  },
-  {
-    id: 'Dreamstime',
-    icon: <CircleIcon className="h-5 w-5 text-indigo-400" />,
-    name: 'Dreamstime'
-  }
-];
+// Icons for the built-in platforms; custom ones get a generic icon
+const platformIcons: Record<string, React.ReactNode> = {
+  Freepik: <Crown className="h-5 w-5 text-yellow-400" />,
+  AdobeStock: <span className="text-sm font-bold">St</span>,
+  Shutterstock: <Camera className="h-5 w-5 text-blue-400" />,
+  Vecteezy: <Diamond className="h-5 w-5 text-orange-500" />,
+  Canva: <Diamond className="h-5 w-5 text-blue-500" />,
+  '123RF': <Box className="h-5 w-5 text-purple-400" />,
+  Dreamstime: <CircleIcon className="h-5 w-5 text-indigo-400" />
+};
 
 const PlatformSelector: React.FC<PlatformSelectorProps> = ({
   selectedPlatforms,
   onPlatformChange
 }) => {
+  const [platforms, setPlatforms] = useState(getPlatformDefinitions);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
   const togglePlatform = (platform: Platform) => {
-    // Changed to only allow single platform selection
-    onPlatformChange([platform]);
+    if (!selectedPlatforms.includes(platform)) {
+      onPlatformChange([...selectedPlatforms, platform]);
+    } else if (selectedPlatforms.length > 1) {
+      // Keep at least one platform selected
+      onPlatformChange(selectedPlatforms.filter(p => p !== platform));
+    }
+  };
+
+  // Load custom platform definitions from a JSON file
+  const handleDefinitionFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const definitions = parsePlatformDefinitions(JSON.parse(await file.text()));
+      setPlatforms(addCustomPlatforms(definitions));
+      toast.success(`Added ${definitions.map(definition => definition.name).join(', ')}`);
+    } catch (error) {
+      console.error('Error loading platform definition:', error);
+      toast.error(error instanceof SyntaxError
+        ? 'The platform definition file is not valid JSON'
+        : `Invalid platform definition: ${(error as Error).message}`);
+    }
+  };
+
+  const handleRemovePlatform = (e: React.MouseEvent, platform: Platform) => {
+    e.stopPropagation();
+    setPlatforms(removeCustomPlatform(platform));
+    const remaining = selectedPlatforms.filter(p => p !== platform);
+    if (remaining.length !== selectedPlatforms.length) {
+      onPlatformChange(remaining.length > 0 ? remaining : ['AdobeStock']);
+    }
   };
 
   return (
@@ -90,9 +102,19 @@ const PlatformSelector: React.FC<PlatformSelectorProps> = ({
                   }}
                 />
                 <div className="flex h-6 w-6 items-center justify-center rounded bg-gray-700 relative z-10">
-                  {platform.icon}
+                  {platformIcons[platform.id] || <Store className="h-5 w-5 text-gray-300" />}
                 </div>
                 <span className="text-sm text-gray-300 relative z-10">{platform.name}</span>
+                {isCustomPlatform(platform.id) && (
+                  <span
+                    role="button"
+                    aria-label={`Remove ${platform.name}`}
+                    onClick={e => handleRemovePlatform(e, platform.id)}
+                    className="relative z-10 text-gray-500 hover:text-white"
+                  >
+                    <X className="h-3 w-3" />
+                  </span>
+                )}
               </button>
             </TooltipTrigger>
             <TooltipContent className="bg-gray-800 text-gray-200 border-gray-700">
@@ -101,6 +123,31 @@ const PlatformSelector: React.FC<PlatformSelectorProps> = ({
           </Tooltip>
         </TooltipProvider>
       ))}
+
+      <TooltipProvider>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center rounded-lg px-3 py-2 text-sm bg-gray-800 hover:bg-gray-700 text-gray-300"
+            >
+              <Plus className="h-4 w-4" />
+              <span className="sr-only">Add custom platform</span>
+            </button>
+          </TooltipTrigger>
+          <TooltipContent className="bg-gray-800 text-gray-200 border-gray-700">
+            <p>Add a custom platform from a JSON definition</p>
+          </TooltipContent>
+        </Tooltip>
+      </TooltipProvider>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={handleDefinitionFile}
+      />
     </div>
   );
 };
@@ -0,0 +1,87 @@
+import React from 'react';
+import { Settings2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getProviderDefaults, providerOptions, ProviderId, ProviderSettings } from '@/integrations/providers';
+
+interface ProviderSelectorProps {
+  settings: ProviderSettings;
+  onSettingsChange: (settings: ProviderSettings) => void;
+}
+
+const fieldLabels: Record<'baseUrl' | 'apiKey' | 'model', string> = {
+  baseUrl: 'Base URL',
+  apiKey: 'API Key (optional)',
+  model: 'Model'
+};
+
+const ProviderSelector: React.FC<ProviderSelectorProps> = ({
+  settings,
+  onSettingsChange
+}) => {
+  const option = providerOptions.find(p => p.id === settings.id) || providerOptions[0];
+
+  const handleProviderChange = (id: string) => {
+    onSettingsChange(getProviderDefaults(id as ProviderId));
+  };
+
+  const handleFieldChange = (field: 'baseUrl' | 'apiKey' | 'model', value: string) => {
+    onSettingsChange({ ...settings, [field]: value });
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <Select value={settings.id} onValueChange={handleProviderChange}>
+        <SelectTrigger className="h-8 w-44 bg-gray-800 border-gray-700 text-gray-200 text-xs">
+          <SelectValue placeholder="Provider" />
+        </SelectTrigger>
+        <SelectContent>
+          {providerOptions.map(provider => (
+            <SelectItem key={provider.id} value={provider.id} className="text-xs">
+              {provider.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {option.fields.length > 0 && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-8 w-8 p-0 text-gray-400 hover:text-white">
+              <Settings2 className="h-4 w-4" />
+              <span className="sr-only">Provider Settings</span>
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-80 bg-gray-900 border-gray-700 space-y-3">
+            <h4 className="text-sm font-medium text-[#f68003]">{option.name}</h4>
+            {option.fields.map(field => (
+              <div key={field} className="space-y-1">
+                <Label htmlFor={`provider-${field}`} className="text-xs text-gray-400">
+                  {fieldLabels[field]}
+                </Label>
+                <Input
+                  id={`provider-${field}`}
+                  type={field === 'apiKey' ? 'password' : 'text'}
+                  value={settings[field]}
+                  placeholder={option.defaults[field as 'baseUrl' | 'model']}
+                  onChange={e => handleFieldChange(field, e.target.value)}
+                  className="h-8 bg-gray-800 border-gray-700 text-gray-200 text-xs"
+                />
+              </div>
+            ))}
+            {settings.id === 'ollama' && (
+              <p className="text-xs text-gray-400">
+                Images are sent only to this server. Start Ollama with OLLAMA_ORIGINS set to allow requests from this site.
+              </p>
+            )}
+          </PopoverContent>
+        </Popover>
+      )}
+    </div>
+  );
+};
+
+export default ProviderSelector;
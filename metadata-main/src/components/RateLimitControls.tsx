@@ -0,0 +1,131 @@
+import React from 'react';
+import { Slider } from '@/components/ui/slider';
+import { Button } from '@/components/ui/button';
+import { Info } from 'lucide-react';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { RateLimitSettings } from '@/utils/processingQueue';
+
+interface RateLimitControlsProps {
+  settings: RateLimitSettings;
+  onSettingsChange: (settings: RateLimitSettings) => void;
+}
+
+interface LimitRowProps {
+  label: string;
+  tooltip: string;
+  value: number;
+  minValue: number;
+  maxValue: number;
+  step: number;
+  onChange: (value: number) => void;
+}
+
+// Presets for the Gemini API tiers
+const presets: { name: string; settings: RateLimitSettings }[] = [
+  {
+    name: 'Free',
+    settings: { concurrency: 1, requestsPerMinute: 15, tokensPerMinute: 1000000 }
+  },
+  {
+    name: 'Paid',
+    settings: { concurrency: 5, requestsPerMinute: 1000, tokensPerMinute: 4000000 }
+  }
+];
+
+const LimitRow: React.FC<LimitRowProps> = ({
+  label,
+  tooltip,
+  value,
+  minValue,
+  maxValue,
+  step,
+  onChange
+}) => {
+  return (
+    <div className="mb-4">
+      <div className="flex justify-between items-center mb-1">
+        <div className="text-xs text-gray-400 flex items-center">
+          {label}
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Info className="h-3 w-3 text-gray-400 ml-1 cursor-pointer" />
+              </TooltipTrigger>
+              <TooltipContent className="bg-gray-800 text-gray-200 border-gray-700">
+                <p className="max-w-xs text-xs">{tooltip}</p>
+              </TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+        </div>
+        <span className="text-xs font-medium text-white bg-gray-700 px-2 py-0.5 rounded">{value.toLocaleString()}</span>
+      </div>
+      <Slider
+        value={[value]}
+        min={minValue}
+        max={maxValue}
+        step={step}
+        className="flex-1"
+        onValueChange={values => onChange(values[0])}
+      />
+    </div>
+  );
+};
+
+const RateLimitControls: React.FC<RateLimitControlsProps> = ({
+  settings,
+  onSettingsChange
+}) => {
+  const updateSetting = (key: keyof RateLimitSettings) => (value: number) => {
+    onSettingsChange({ ...settings, [key]: value });
+  };
+
+  return (
+    <div>
+      <div className="flex gap-2 mb-4">
+        {presets.map(preset => (
+          <Button
+            key={preset.name}
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs flex-1"
+            onClick={() => onSettingsChange(preset.settings)}
+          >
+            {preset.name} tier
+          </Button>
+        ))}
+      </div>
+
+      <LimitRow
+        label="Concurrent Requests"
+        tooltip="Number of images analyzed at the same time"
+        value={settings.concurrency}
+        minValue={1}
+        maxValue={10}
+        step={1}
+        onChange={updateSetting('concurrency')}
+      />
+
+      <LimitRow
+        label="Requests per Minute"
+        tooltip="Request limit of your API key; requests are spread out to stay under it"
+        value={settings.requestsPerMinute}
+        minValue={5}
+        maxValue={2000}
+        step={5}
+        onChange={updateSetting('requestsPerMinute')}
+      />
+
+      <LimitRow
+        label="Tokens per Minute"
+        tooltip="Token limit of your API key, estimated from prompt and image size"
+        value={settings.tokensPerMinute}
+        minValue={250000}
+        maxValue={4000000}
+        step={250000}
+        onChange={updateSetting('tokensPerMinute')}
+      />
+    </div>
+  );
+};
+
+export default RateLimitControls;
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Textarea } from '@/components/ui/textarea';
+import { RegenerableField } from '@/utils/geminiApi';
+
+interface RegeneratePopoverProps {
+  // Fields the selected platforms use
+  fields: RegenerableField[];
+  onRegenerate: (fields: RegenerableField[] | undefined, hint: string) => Promise<void>;
+}
+
+const fieldLabels: Record<RegenerableField, string> = {
+  title: 'Title',
+  description: 'Description',
+  keywords: 'Keywords',
+};
+
+// Regenerate one field or the whole image, with optional instructions for the model
+const RegeneratePopover: React.FC<RegeneratePopoverProps> = ({
+  fields,
+  onRegenerate
+}) => {
+  const [hint, setHint] = useState('');
+  const [busyField, setBusyField] = useState<RegenerableField | 'all' | null>(null);
+
+  const regenerate = async (field: RegenerableField | 'all') => {
+    setBusyField(field);
+    try {
+      await onRegenerate(field === 'all' ? undefined : [field], hint);
+    } finally {
+      setBusyField(null);
+    }
+  };
+
+  const renderButton = (field: RegenerableField | 'all', label: string) => (
+    <Button
+      key={field}
+      variant="outline"
+      size="sm"
+      onClick={() => regenerate(field)}
+      disabled={busyField !== null}
+      className="flex items-center gap-1 text-xs"
+    >
+      {busyField === field && <Loader2 className="h-3 w-3 animate-spin" />}
+      {label}
+    </Button>
+  );
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-1">
+          <RefreshCw className={`h-4 w-4 ${busyField ? 'animate-spin' : ''}`} />
+          <span>Regenerate</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <Textarea
+          value={hint}
+          onChange={e => setHint(e.target.value)}
+          placeholder="Extra instructions (optional), e.g. focus on the background texture"
+          rows={3}
+          className="text-xs"
+        />
+        <div className="flex flex-wrap gap-2">
+          {fields.map(field => renderButton(field, fieldLabels[field]))}
+          {renderButton('all', 'Whole image')}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default RegeneratePopover;
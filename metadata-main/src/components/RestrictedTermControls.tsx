@@ -0,0 +1,54 @@
+import React, { useEffect, useState } from 'react';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { RestrictedTermSettings } from '@/utils/restrictedTerms';
+
+interface RestrictedTermControlsProps {
+  settings: RestrictedTermSettings;
+  onSettingsChange: (settings: RestrictedTermSettings) => void;
+}
+
+const RestrictedTermControls: React.FC<RestrictedTermControlsProps> = ({
+  settings,
+  onSettingsChange
+}) => {
+  // Saved on blur, like the banned keyword list
+  const [customText, setCustomText] = useState(settings.customTerms.join(', '));
+
+  useEffect(() => {
+    setCustomText(settings.customTerms.join(', '));
+  }, [settings.customTerms]);
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <Label htmlFor="restricted-custom-terms" className="text-xs text-gray-400">Extra terms to flag</Label>
+        <Textarea
+          id="restricted-custom-terms"
+          value={customText}
+          onChange={e => setCustomText(e.target.value)}
+          onBlur={() => onSettingsChange({
+            ...settings,
+            customTerms: customText.split(/[,\n]/).map(term => term.trim()).filter(Boolean)
+          })}
+          placeholder="Comma-separated, added to the built-in brand and artist list"
+          className="min-h-[60px] bg-gray-800 border-gray-700 text-gray-200 text-xs"
+        />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Label htmlFor="restricted-block-export" className="text-xs text-gray-400">
+          Block CSV download while flagged
+        </Label>
+        <Switch
+          id="restricted-block-export"
+          checked={settings.blockExport}
+          onCheckedChange={blockExport => onSettingsChange({ ...settings, blockExport })}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default RestrictedTermControls;
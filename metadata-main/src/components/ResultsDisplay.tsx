@@ -1,11 +1,32 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
+import JSZip from 'jszip';
 import { Button } from '@/components/ui/button';
-import { Download, Copy, X, Check } from 'lucide-react';
-import { ProcessedImage, formatImagesAsCSV, downloadCSV, formatFileSize, removeSymbolsFromTitle } from '@/utils/imageHelpers';
+import { Download, Copy, X, Check, Package, Tag, FileJson, ChevronDown, Upload, Undo2, Redo2, RefreshCw, ShieldAlert, Loader2 } from 'lucide-react';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { ImageMetadata, ProcessedImage, downloadBlob, downloadCSV, formatFileSize, removeSymbolsFromTitle, getPlatformResult } from '@/utils/imageHelpers';
+import { CsvExportSettings, formatPlatformCSV, getPlatformDelimiter } from '@/utils/platformExporters';
+import { validateCsv } from '@/utils/csv';
+import { buildExportPackage } from '@/utils/packageExport';
+import { canEmbedMetadata, embedMetadata, getEmbeddableMetadata } from '@/utils/embedMetadata';
+import { buildXmpSidecars, formatImagesAsJson, JsonExportFormat } from '@/utils/structuredExport';
+import { CsvImportResult, importPlatformCsv } from '@/utils/csvImport';
 import { toast } from 'sonner';
 import { GenerationMode } from '@/components/GenerationModeSelector';
 import { Card } from '@/components/ui/card';
 import { Platform } from '@/components/PlatformSelector';
+import { getFieldLimits, getPlatformDefinition } from '@/utils/platformDefinitions';
+import EditableText from '@/components/EditableText';
+import KeywordEditor from '@/components/KeywordEditor';
+import CategoryPicker from '@/components/CategoryPicker';
+import RegeneratePopover from '@/components/RegeneratePopover';
+import DuplicatesPanel, { DuplicateMode } from '@/components/DuplicatesPanel';
+import ComplianceSummary from '@/components/ComplianceSummary';
+import VersionHistoryDialog from '@/components/VersionHistoryDialog';
+import { canRedo, canUndo } from '@/utils/metadataHistory';
+import { findDuplicateClusters } from '@/utils/perceptualHash';
+import { RegenerableField } from '@/utils/geminiApi';
+import { checkBatchCompliance, ComplianceStatus, formatComplianceReport } from '@/utils/complianceCheck';
+import { DEFAULT_RESTRICTED_TERM_SETTINGS, findPlatformViolations, PlatformTermViolation, RestrictedTermSettings } from '@/utils/restrictedTerms';
 
 interface ResultsDisplayProps {
   images: ProcessedImage[];
@@ -13,16 +34,68 @@ interface ResultsDisplayProps {
   onClearAll: () => void;
   generationMode: GenerationMode;
   selectedPlatforms?: Platform[];
+  csvSettings?: CsvExportSettings;
+  onImportResults?: (imported: CsvImportResult) => void;
+  onUpdateResult: (id: string, changes: Partial<ImageMetadata>, platform?: Platform) => void;
+  onRegenerate?: (id: string, fields: RegenerableField[] | undefined, hint: string) => Promise<void>;
+  onUndo?: (id: string) => void;
+  onRedo?: (id: string) => void;
+  onRestoreVersion?: (id: string, index: number) => void;
+  duplicateMode?: DuplicateMode;
+  onDuplicateModeChange?: (mode: DuplicateMode) => void;
+  onSkipDuplicates?: () => void;
+  restrictedTermSettings?: RestrictedTermSettings;
+  onCheckRestrictedTerms?: (id: string) => Promise<void>;
+  onRemoveRestrictedTerm?: (id: string, violation: PlatformTermViolation) => void;
+  // Sidebar word and keyword ranges, shown next to the editable fields
+  limits?: {
+    minTitleWords: number;
+    maxTitleWords: number;
+    minKeywords: number;
+    maxKeywords: number;
+    minDescriptionWords: number;
+    maxDescriptionWords: number;
+  };
 }
 
+const complianceLabels: Record<ComplianceStatus, string> = {
+  pass: 'Pass',
+  warn: 'Warn',
+  fail: 'Fail',
+};
+
+const complianceBadgeClasses: Record<ComplianceStatus, string> = {
+  pass: 'bg-green-900/40 text-green-300',
+  warn: 'bg-yellow-900/40 text-yellow-300',
+  fail: 'bg-red-900/40 text-red-300',
+};
+
 const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ 
   images, 
   onRemoveImage, 
   onClearAll, 
   generationMode,
-  selectedPlatforms = ['AdobeStock']
+  selectedPlatforms = ['AdobeStock'],
+  csvSettings,
+  onImportResults,
+  onUpdateResult,
+  onRegenerate,
+  onUndo,
+  onRedo,
+  onRestoreVersion,
+  duplicateMode = 'separate',
+  onDuplicateModeChange,
+  onSkipDuplicates,
+  restrictedTermSettings = DEFAULT_RESTRICTED_TERM_SETTINGS,
+  onCheckRestrictedTerms,
+  onRemoveRestrictedTerm,
+  limits
 }) => {
   const [copiedId, setCopiedId] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [packageProgress, setPackageProgress] = useState<number | null>(null);
+  const [isEmbedding, setIsEmbedding] = useState(false);
+  const [checkingTermsId, setCheckingTermsId] = useState<string | null>(null);
 
   if (images.length === 0) return null;
 
@@ -36,19 +109,200 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
     }, 2000);
   };
 
-  // Check for specific platforms
-  const isFreepikOnly = selectedPlatforms.length === 1 && selectedPlatforms[0] === 'Freepik';
-  const isShutterstock = selectedPlatforms.length === 1 && selectedPlatforms[0] === 'Shutterstock';
-  const isAdobeStock = selectedPlatforms.length === 1 && selectedPlatforms[0] === 'AdobeStock';
+  // Fields shown depend on which platforms are selected
+  const isMultiPlatform = selectedPlatforms.length > 1;
+  const definitions = selectedPlatforms.map(getPlatformDefinition);
+  const showTitle = definitions.some(d => d.fields.includes('title'));
+  const showDescription = definitions.some(d => d.fields.includes('description'));
+  const categoryPlatforms = definitions.filter(d => d.categories);
+  // Character limits are the tightest of the selected platforms
+  const titleMaxLength = getFieldLimits(definitions, 'title').maxLength;
+  const descriptionMaxLength = getFieldLimits(definitions, 'description').maxLength;
+  const regenerableFields = (['title', 'description', 'keywords'] as RegenerableField[])
+    .filter(field => definitions.some(d => d.fields.includes(field)));
+  // Prompt and base model come from the first platform that uses them
+  const promptPlatform = definitions.find(d => d.fields.includes('prompt'))?.id;
+  const baseModelPlatform = definitions.find(d => d.baseModel)?.id;
+  // Leading keywords weighed most, the fewest of the selected platforms that have such a limit
+  const topCounts = definitions.map(d => d.topKeywords).filter(Boolean);
+  const topKeywordCount = topCounts.length > 0 ? Math.min(...topCounts) : undefined;
+
+  // Restricted terms in the results each selected platform exports
+  const getViolations = (image: ProcessedImage) => findPlatformViolations(image, selectedPlatforms, restrictedTermSettings);
+
+  const handleCheckTerms = async (id: string) => {
+    setCheckingTermsId(id);
+    try {
+      await onCheckRestrictedTerms(id);
+    } finally {
+      setCheckingTermsId(null);
+    }
+  };
+
+  // Build each platform's CSV and re-parse it; returns null when a file has broken rows
+  const prepareCsvFiles = () => {
+    const files = selectedPlatforms.map(platform => {
+      const platformImages = images.map(img => ({ ...img, result: getPlatformResult(img, platform) }));
+      const csvContent = formatPlatformCSV(platformImages, platform, csvSettings);
+      return { platform, csvContent, issues: validateCsv(csvContent, getPlatformDelimiter(platform)) };
+    });
+    
+    const invalid = files.filter(file => file.issues.length > 0);
+    if (invalid.length > 0) {
+      invalid.forEach(({ platform, issues }) => {
+        console.error(`CSV validation failed for ${platform}:`, issues);
+        const rows = issues.slice(0, 5).map(issue => `row ${issue.row} has ${issue.columns} columns, expected ${issue.expected}`);
+        toast.error(`${platform} CSV is malformed: ${rows.join('; ')}${issues.length > 5 ? ` and ${issues.length - 5} more` : ''}`);
+      });
+      return null;
+    }
+    return files;
+  };
+
+  // Brand and artist names left in completed results; blocks the download or only warns, per the sidebar setting
+  const checkRestrictedTerms = () => {
+    const flagged = images.filter(img => img.status === 'complete' && getViolations(img).length > 0);
+    if (flagged.length === 0) return true;
+    
+    const message = `${flagged.length} file${flagged.length === 1 ? ' still names' : 's still name'} a brand, trademark or artist`;
+    if (restrictedTermSettings.blockExport) {
+      toast.error(`${message}. Remove the flagged terms before downloading.`);
+      return false;
+    }
+    toast.warning(`${message}; the site may reject ${flagged.length === 1 ? 'it' : 'them'}`);
+    return true;
+  };
 
   const handleDownloadCSV = () => {
-    const csvContent = formatImagesAsCSV(images, isFreepikOnly, isShutterstock, isAdobeStock);
+    if (!checkRestrictedTerms()) return;
+    const files = prepareCsvFiles();
+    if (!files) return;
     
-    // Pass the platform name for custom folder naming
-    const selectedPlatform = selectedPlatforms.length === 1 ? selectedPlatforms[0] : undefined;
-    downloadCSV(csvContent, 'image-metadata.csv', selectedPlatform);
+    files.forEach(({ platform, csvContent }) => {
+      // Pass the platform name for custom folder naming
+      downloadCSV(csvContent, isMultiPlatform ? `image-metadata-${platform}.csv` : 'image-metadata.csv', platform);
+    });
     
-    toast.success('CSV file downloaded');
+    toast.success(isMultiPlatform ? `${selectedPlatforms.length} CSV files downloaded` : 'CSV file downloaded');
+  };
+
+  // Zip each platform's CSV with the original files for a single upload
+  const handleDownloadPackage = async () => {
+    if (!checkRestrictedTerms() || !prepareCsvFiles()) return;
+    
+    setPackageProgress(0);
+    try {
+      const blob = await buildExportPackage(images, selectedPlatforms, csvSettings, setPackageProgress);
+      downloadBlob(blob, `metadata-package-${new Date().toISOString().slice(0, 10)}.zip`);
+      toast.success('Package downloaded');
+    } catch (error) {
+      console.error('Error building package:', error);
+      toast.error('Failed to build the download package');
+    } finally {
+      setPackageProgress(null);
+    }
+  };
+
+  // Download a copy of one image with its metadata written in as IPTC and XMP
+  const handleDownloadTagged = async (image: ProcessedImage) => {
+    try {
+      const tagged = await embedMetadata(image.file, getEmbeddableMetadata(image));
+      downloadBlob(tagged, tagged.name);
+      toast.success('Tagged file downloaded');
+    } catch (error) {
+      console.error('Error embedding metadata:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to embed metadata');
+    }
+  };
+
+  // Tag every completed image; more than one file is zipped
+  const handleEmbedAll = async () => {
+    const embeddable = completedImages.filter(img => canEmbedMetadata(img.file));
+    const skipped = completedImages.length - embeddable.length;
+    if (embeddable.length === 0) {
+      toast.error('Metadata can only be embedded in JPEG, PNG and TIFF files');
+      return;
+    }
+
+    setIsEmbedding(true);
+    try {
+      const tagged: File[] = [];
+      for (const img of embeddable) {
+        try {
+          tagged.push(await embedMetadata(img.file, getEmbeddableMetadata(img)));
+        } catch (error) {
+          console.error(`Error embedding metadata in ${img.file.name}:`, error);
+          toast.error(`${img.file.name}: ${error instanceof Error ? error.message : 'Failed to embed metadata'}`);
+        }
+      }
+      if (tagged.length === 0) return;
+
+      if (tagged.length === 1) {
+        downloadBlob(tagged[0], tagged[0].name);
+      } else {
+        const zip = new JSZip();
+        tagged.forEach(file => zip.file(file.name, file));
+        const blob = await zip.generateAsync({ type: 'blob', compression: 'STORE' });
+        downloadBlob(blob, `tagged-images-${new Date().toISOString().slice(0, 10)}.zip`);
+      }
+
+      toast.success(`Metadata embedded in ${tagged.length} file${tagged.length === 1 ? '' : 's'}`);
+      if (skipped > 0) {
+        toast.warning(`${skipped} file${skipped === 1 ? ' was' : 's were'} skipped: only JPEG, PNG and TIFF are supported`);
+      }
+    } catch (error) {
+      console.error('Error building tagged files:', error);
+      toast.error('Failed to embed metadata');
+    } finally {
+      setIsEmbedding(false);
+    }
+  };
+
+  // Restore results from CSVs exported earlier, one platform per file
+  const handleImportFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+
+    for (const file of files) {
+      try {
+        onImportResults?.(importPlatformCsv(await file.text(), selectedPlatforms));
+      } catch (error) {
+        console.error(`Error importing ${file.name}:`, error);
+        toast.error(`${file.name}: ${error instanceof Error ? error.message : 'Failed to import CSV'}`);
+      }
+    }
+  };
+
+  // One .xmp file per image for RAW and EPS workflows; several are zipped
+  const handleDownloadSidecars = async () => {
+    const sidecars = buildXmpSidecars(images);
+    if (sidecars.length === 0) {
+      toast.error('No completed images to export');
+      return;
+    }
+
+    try {
+      if (sidecars.length === 1) {
+        downloadBlob(new Blob([sidecars[0].content], { type: 'application/rdf+xml' }), sidecars[0].filename);
+      } else {
+        const zip = new JSZip();
+        sidecars.forEach(({ filename, content }) => zip.file(filename, content));
+        const blob = await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+        downloadBlob(blob, `xmp-sidecars-${new Date().toISOString().slice(0, 10)}.zip`);
+      }
+      toast.success(`${sidecars.length} XMP sidecar${sidecars.length === 1 ? '' : 's'} downloaded`);
+    } catch (error) {
+      console.error('Error building XMP sidecars:', error);
+      toast.error('Failed to export XMP sidecars');
+    }
+  };
+
+  // Every image with its results, settings and timestamps, for import into a DAM
+  const handleDownloadJson = (format: JsonExportFormat) => {
+    const content = formatImagesAsJson(images, selectedPlatforms, format);
+    const type = format === 'ndjson' ? 'application/x-ndjson' : 'application/json';
+    downloadBlob(new Blob([content], { type }), `image-metadata.${format}`);
+    toast.success(`${format.toUpperCase()} file downloaded`);
   };
 
   const downloadPromptText = (text: string, filename: string) => {
@@ -89,6 +343,19 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
 
   const completedImages = images.filter(img => img.status === 'complete');
   const hasCompletedImages = completedImages.length > 0;
+  const duplicateClusters = findDuplicateClusters(images);
+  // Name of the first other image in each image's near-duplicate group
+  const duplicateOf = new Map(duplicateClusters.flatMap(cluster => cluster.map(img => [img.id, cluster.find(other => other !== img).file.name] as const)));
+
+  // Platform rules checked for every completed image, against the platforms being exported
+  const compliance = checkBatchCompliance(images, selectedPlatforms);
+  const complianceById = new Map(compliance.map(result => [result.image.id, result]));
+
+  const handleExportComplianceReport = () => {
+    const blob = new Blob([formatComplianceReport(compliance)], { type: 'text/csv;charset=utf-8;' });
+    downloadBlob(blob, `compliance-report-${new Date().toISOString().slice(0, 10)}.csv`);
+    toast.success('Compliance report downloaded');
+  };
 
   // Removed duplicate platform declarations that were here
 
@@ -108,6 +375,30 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
               <span>Download CSV</span>
             </Button>
           )}
+          {hasCompletedImages && generationMode === 'metadata' && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleDownloadPackage}
+              disabled={packageProgress !== null}
+              className="flex items-center gap-1"
+            >
+              <Package className="h-4 w-4" />
+              <span>{packageProgress !== null ? `Packaging ${packageProgress}%` : 'Download Package'}</span>
+            </Button>
+          )}
+          {hasCompletedImages && generationMode === 'metadata' && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleEmbedAll}
+              disabled={isEmbedding}
+              className="flex items-center gap-1"
+            >
+              <Tag className="h-4 w-4" />
+              <span>{isEmbedding ? 'Embedding...' : 'Embed Metadata'}</span>
+            </Button>
+          )}
           {/* Add Download All button for imageToPrompt mode */}
           {hasCompletedImages && generationMode === 'imageToPrompt' && (
             <Button
@@ -120,6 +411,35 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
               <span>Download All</span>
             </Button>
           )}
+          {hasCompletedImages && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" className="flex items-center gap-1">
+                  <FileJson className="h-4 w-4" />
+                  <span>More Exports</span>
+                  <ChevronDown className="h-3 w-3" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {generationMode === 'metadata' && (
+                  <DropdownMenuItem onClick={handleDownloadSidecars}>XMP sidecars (.xmp)</DropdownMenuItem>
+                )}
+                <DropdownMenuItem onClick={() => handleDownloadJson('json')}>JSON</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleDownloadJson('ndjson')}>NDJSON (one image per line)</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+          {onImportResults && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => importInputRef.current?.click()}
+              className="flex items-center gap-1"
+            >
+              <Upload className="h-4 w-4" />
+              <span>Import CSV</span>
+            </Button>
+          )}
           <Button
             variant="outline"
             size="sm"
@@ -129,9 +449,31 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
             <X className="h-4 w-4" />
             <span>Clear All</span>
           </Button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="text/csv,.csv"
+            multiple
+            className="hidden"
+            onChange={handleImportFiles}
+          />
         </div>
       </div>
 
+      {onDuplicateModeChange && onSkipDuplicates && (
+        <DuplicatesPanel
+          clusters={duplicateClusters}
+          historyMatches={images.filter(img => img.historyMatch && img.status !== 'complete')}
+          mode={duplicateMode}
+          onModeChange={onDuplicateModeChange}
+          onSkipDuplicates={onSkipDuplicates}
+        />
+      )}
+
+      {generationMode === 'metadata' && (
+        <ComplianceSummary results={compliance} onExportReport={handleExportComplianceReport} />
+      )}
+
       {/* Image to Prompt mode display - Updated to show image with prompt */}
       {generationMode === 'imageToPrompt' && completedImages.length > 0 && (
         <div className="grid grid-cols-1 gap-6">
@@ -199,6 +541,8 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
           {completedImages.map((image) => {
             // Clean title by removing symbols
             const cleanTitle = image.result?.title ? removeSymbolsFromTitle(image.result.title) : '';
+            const violations = getViolations(image);
+            const imageCompliance = complianceById.get(image.id);
             
             return (
               <div key={image.id} className="mb-6 bg-gray-800/30 border border-gray-700/50 rounded-lg overflow-hidden">
@@ -217,19 +561,135 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
                   
                   <div className="p-6">
                     <div className="flex justify-between items-center mb-4">
-                      <h3 className="text-amber-500 text-lg">Generated Metadata</h3>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={handleDownloadCSV}
-                        className="flex items-center gap-1 bg-orange-600 hover:bg-orange-700 text-white border-none"
-                      >
-                        <Download className="h-4 w-4" />
-                        <span>Download CSV</span>
-                      </Button>
+                      <div className="flex items-center gap-2">
+                        <h3 className="text-amber-500 text-lg">Generated Metadata</h3>
+                        {imageCompliance && (
+                          <span
+                            className={`${complianceBadgeClasses[imageCompliance.status]} text-xs px-2 py-0.5 rounded`}
+                            title={imageCompliance.issues.map(issue => `${issue.platform} ${issue.field}: ${issue.message}`).join('\n') || 'Meets the rules of the selected platforms'}
+                          >
+                            {complianceLabels[imageCompliance.status]}
+                          </span>
+                        )}
+                        {image.cached && (
+                          <span className="bg-emerald-900/40 text-emerald-300 text-xs px-2 py-0.5 rounded" title="Reused from an earlier run with the same file and settings">
+                            Cached
+                          </span>
+                        )}
+                        {duplicateOf.has(image.id) && (
+                          <span className="bg-yellow-900/40 text-yellow-300 text-xs px-2 py-0.5 rounded" title={`Near-duplicate of ${duplicateOf.get(image.id)}`}>
+                            Near-duplicate
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex gap-2">
+                        {onUndo && onRedo && onRestoreVersion && (
+                          <div className="flex">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              onClick={() => onUndo(image.id)}
+                              disabled={!canUndo(image)}
+                              aria-label="Undo"
+                            >
+                              <Undo2 className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              onClick={() => onRedo(image.id)}
+                              disabled={!canRedo(image)}
+                              aria-label="Redo"
+                            >
+                              <Redo2 className="h-4 w-4" />
+                            </Button>
+                            <VersionHistoryDialog image={image} onRestore={index => onRestoreVersion(image.id, index)} />
+                          </div>
+                        )}
+                        {image.cached && onRegenerate && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => onRegenerate(image.id, undefined, '')}
+                            className="flex items-center gap-1"
+                          >
+                            <RefreshCw className="h-4 w-4" />
+                            <span>Force Regenerate</span>
+                          </Button>
+                        )}
+                        {onRegenerate && (
+                          <RegeneratePopover
+                            fields={regenerableFields}
+                            onRegenerate={(fields, hint) => onRegenerate(image.id, fields, hint)}
+                          />
+                        )}
+                        {onCheckRestrictedTerms && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleCheckTerms(image.id)}
+                            disabled={checkingTermsId !== null}
+                            className="flex items-center gap-1"
+                            title="Ask the model for brand, trademark and artist names the built-in list misses"
+                          >
+                            {checkingTermsId === image.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <ShieldAlert className="h-4 w-4" />}
+                            <span>Check Brands</span>
+                          </Button>
+                        )}
+                        {canEmbedMetadata(image.file) && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleDownloadTagged(image)}
+                            className="flex items-center gap-1"
+                          >
+                            <Tag className="h-4 w-4" />
+                            <span>Tagged File</span>
+                          </Button>
+                        )}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={handleDownloadCSV}
+                          className="flex items-center gap-1 bg-orange-600 hover:bg-orange-700 text-white border-none"
+                        >
+                          <Download className="h-4 w-4" />
+                          <span>Download CSV</span>
+                        </Button>
+                      </div>
                     </div>
                     
                     <div className="space-y-4">
+                      {/* Brand, trademark and artist names that stock sites reject */}
+                      {violations.length > 0 && (
+                        <div className="rounded-md border border-red-800 bg-red-950/40 p-3 space-y-2">
+                          <h4 className="text-red-300 text-sm flex items-center gap-1">
+                            <ShieldAlert className="h-4 w-4" />
+                            Restricted terms found
+                          </h4>
+                          {violations.map((violation, index) => (
+                            <div key={`${violation.field}-${violation.term.term}-${violation.keyword || ''}-${index}`} className="flex items-center justify-between gap-2 text-sm">
+                              <span className="text-gray-300">
+                                <span className="text-red-300">{violation.match}</span>
+                                <span className="text-gray-500"> in {violation.field === 'keywords' ? `keyword "${violation.keyword}"` : violation.field} ({violation.term.kind}{isMultiPlatform ? `, ${violation.platforms.map(platform => getPlatformDefinition(platform).name).join(', ')}` : ''})</span>
+                              </span>
+                              {onRemoveRestrictedTerm && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-6 px-2 text-xs"
+                                  onClick={() => onRemoveRestrictedTerm(image.id, violation)}
+                                >
+                                  Remove
+                                </Button>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+
                       {/* Filename with copy button */}
                       <div>
                         <div className="flex items-center gap-2">
@@ -247,8 +707,24 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
                         <p className="text-white">{image.file.name}</p>
                       </div>
 
-                      {/* Title with copy button (not for Shutterstock) */}
-                      {!isShutterstock && (
+                      {/* Metadata that was already embedded in the uploaded file */}
+                      {image.embeddedMetadata && (
+                        <div className="rounded-md border border-gray-700 bg-gray-900/40 p-3 space-y-1">
+                          <h4 className="text-gray-400 text-sm">Existing Metadata:</h4>
+                          {image.embeddedMetadata.title && (
+                            <p className="text-gray-300 text-sm"><span className="text-gray-500">Title:</span> {image.embeddedMetadata.title}</p>
+                          )}
+                          {image.embeddedMetadata.description && (
+                            <p className="text-gray-300 text-sm"><span className="text-gray-500">Description:</span> {image.embeddedMetadata.description}</p>
+                          )}
+                          {image.embeddedMetadata.keywords.length > 0 && (
+                            <p className="text-gray-300 text-sm"><span className="text-gray-500">Keywords:</span> {image.embeddedMetadata.keywords.join(', ')}</p>
+                          )}
+                        </div>
+                      )}
+
+                      {/* Title with copy button */}
+                      {showTitle && (
                         <div>
                           <div className="flex items-center gap-2">
                             <h4 className="text-amber-500">Title:</h4>
@@ -262,15 +738,30 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
                               {copiedId === `${image.id}-title` ? <Check className="h-4 w-4 text-green-400" /> : <Copy className="h-4 w-4" />}
                             </Button>
                           </div>
-                          <p className="text-white">{cleanTitle}</p>
+                          <EditableText
+                            value={image.result?.title || ''}
+                            onChange={title => onUpdateResult(image.id, { title })}
+                            minWords={limits?.minTitleWords}
+                            maxWords={limits?.maxTitleWords}
+                            maxLength={titleMaxLength}
+                            ariaLabel="Title"
+                          />
                         </div>
                       )}
 
                       {/* Description (no copy button, as requested) */}
-                      {!isFreepikOnly && !isAdobeStock && (
+                      {showDescription && (
                         <div>
                           <h4 className="text-amber-500">Description:</h4>
-                          <p className="text-white">{image.result?.description || ''}</p>
+                          <EditableText
+                            value={image.result?.description || ''}
+                            onChange={description => onUpdateResult(image.id, { description })}
+                            multiline
+                            minWords={limits?.minDescriptionWords}
+                            maxWords={limits?.maxDescriptionWords}
+                            maxLength={descriptionMaxLength}
+                            ariaLabel="Description"
+                          />
                         </div>
                       )}
 
@@ -288,89 +779,64 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
                             {copiedId === `${image.id}-keywords` ? <Check className="h-4 w-4 text-green-400" /> : <Copy className="h-4 w-4" />}
                           </Button>
                         </div>
-                        <div className="flex flex-wrap gap-2 mt-2">
-                          {image.result?.keywords && image.result.keywords.length > 0 ? (
-                            image.result.keywords.map((keyword, index) => (
-                              <span 
-                                key={index} 
-                                className="bg-blue-600 text-white text-xs px-3 py-1 rounded-full"
-                              >
-                                {keyword}
-                              </span>
-                            ))
-                          ) : (
-                            <span className="text-gray-400">No keywords available</span>
-                          )}
+                        <div className="mt-2">
+                          <KeywordEditor
+                            keywords={image.result?.keywords || []}
+                            pinned={image.result?.pinnedKeywords}
+                            onChange={(keywords, pinnedKeywords) => onUpdateResult(image.id, { keywords, pinnedKeywords })}
+                            minKeywords={limits?.minKeywords}
+                            maxKeywords={limits?.maxKeywords}
+                            topCount={topKeywordCount}
+                          />
                         </div>
                       </div>
 
-                      {/* Category/Categories with copy button for AdobeStock and Shutterstock */}
-                      {isAdobeStock && image.result?.categories && (
-                        <div>
-                          <div className="flex items-center gap-2">
-                            <h4 className="text-amber-500">Category:</h4>
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              className="h-6 w-6 p-0"
-                              onClick={() => handleCopyToClipboard((image.result?.categories || []).join(', '), `${image.id}-categories`)}
-                              aria-label="Copy Category"
-                            >
-                              {copiedId === `${image.id}-categories` ? <Check className="h-4 w-4 text-green-400" /> : <Copy className="h-4 w-4" />}
-                            </Button>
-                          </div>
-                          <div className="flex flex-wrap gap-2 mt-2">
-                            {image.result.categories.map((category, index) => (
-                              <span 
-                                key={index} 
-                                className="bg-purple-600 text-white text-xs px-3 py-1 rounded-full"
+                      {/* Category/Categories with copy button and picker for platforms with a category list */}
+                      {categoryPlatforms.map(definition => {
+                        const categories = getPlatformResult(image, definition.id)?.categories || [];
+                        
+                        const label = `${isMultiPlatform ? `${definition.name} ` : ''}${definition.categories?.maxItems === 1 ? 'Category' : 'Categories'}`;
+                        const copyId = `${image.id}-categories-${definition.id}`;
+                        
+                        return (
+                          <div key={definition.id}>
+                            <div className="flex items-center gap-2">
+                              <h4 className="text-amber-500">{label}:</h4>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-6 w-6 p-0"
+                                onClick={() => handleCopyToClipboard(categories.join(', '), copyId)}
+                                aria-label={`Copy ${label}`}
                               >
-                                {category}
-                              </span>
-                            ))}
+                                {copiedId === copyId ? <Check className="h-4 w-4 text-green-400" /> : <Copy className="h-4 w-4" />}
+                              </Button>
+                            </div>
+                            <div className="mt-2">
+                              <CategoryPicker
+                                categories={categories}
+                                options={definition.categories.list}
+                                maxItems={definition.categories.maxItems}
+                                onChange={updated => onUpdateResult(image.id, { categories: updated }, definition.id)}
+                              />
+                            </div>
                           </div>
+                        );
+                      })}
+
+                      {/* Prompt and Base-Model for platforms that take them */}
+                      {promptPlatform && (
+                        <div>
+                          <h4 className="text-amber-500">Prompt:</h4>
+                          <p className="text-white">{getPlatformResult(image, promptPlatform)?.prompt || 'Not provided'}</p>
                         </div>
                       )}
-                      {isShutterstock && image.result?.categories && (
+                      {baseModelPlatform && (
                         <div>
-                          <div className="flex items-center gap-2">
-                            <h4 className="text-amber-500">Categories:</h4>
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              className="h-6 w-6 p-0"
-                              onClick={() => handleCopyToClipboard((image.result?.categories || []).join(', '), `${image.id}-categories`)}
-                              aria-label="Copy Categories"
-                            >
-                              {copiedId === `${image.id}-categories` ? <Check className="h-4 w-4 text-green-400" /> : <Copy className="h-4 w-4" />}
-                            </Button>
-                          </div>
-                          <div className="flex flex-wrap gap-2 mt-2">
-                            {image.result.categories.map((category, index) => (
-                              <span 
-                                key={index} 
-                                className="bg-purple-600 text-white text-xs px-3 py-1 rounded-full"
-                              >
-                                {category}
-                              </span>
-                            ))}
-                          </div>
+                          <h4 className="text-amber-500">Base-Model:</h4>
+                          <p className="text-white">{getPlatformResult(image, baseModelPlatform)?.baseModel || 'Not provided'}</p>
                         </div>
                       )}
-
-                      {/* Freepik only fields (Prompt, Base-Model) remain unchanged */}
-                      {isFreepikOnly && (
-                        <>
-                          <div>
-                            <h4 className="text-amber-500">Prompt:</h4>
-                            <p className="text-white">{image.result?.prompt || 'Not provided'}</p>
-                          </div>
-                          <div>
-                            <h4 className="text-amber-500">Base-Model:</h4>
-                            <p className="text-white">{image.result?.baseModel || 'Not provided'}</p>
-                          </div>
-                        </>
-                      )}
                     </div>
                   </div>
                 </div>
@@ -401,7 +867,13 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
                       </h3>
                       <p className="text-xs text-gray-400">
                         {formatFileSize(image.file.size)}
+                        {image.embeddedMetadata && ' · has metadata'}
                       </p>
+                      {duplicateOf.has(image.id) && (
+                        <p className="text-xs text-yellow-400 truncate max-w-[140px]" title={`Near-duplicate of ${duplicateOf.get(image.id)}`}>
+                          Near-duplicate of {duplicateOf.get(image.id)}
+                        </p>
+                      )}
                     </div>
                   </div>
                   
@@ -2,7 +2,18 @@ import React from 'react';
 import GenerationModeSelector, { GenerationMode } from '@/components/GenerationModeSelector';
 import CustomizationControls from '@/components/CustomizationControls';
 import UserProfile from '@/components/UserProfile';
+import RateLimitControls from '@/components/RateLimitControls';
+import ModelSelector from '@/components/ModelSelector';
+import CsvExportControls from '@/components/CsvExportControls';
+import ExistingMetadataSelector, { ExistingMetadataMode } from '@/components/ExistingMetadataSelector';
+import KeywordPipelineControls from '@/components/KeywordPipelineControls';
+import RestrictedTermControls from '@/components/RestrictedTermControls';
 import { Platform } from './PlatformSelector';
+import { RateLimitSettings } from '@/utils/processingQueue';
+import { ProviderSettings } from '@/integrations/providers';
+import { CsvExportSettings } from '@/utils/platformExporters';
+import { KeywordPipelineSettings } from '@/utils/keywordPipeline';
+import { RestrictedTermSettings } from '@/utils/restrictedTerms';
 interface SidebarProps {
   selectedMode: GenerationMode;
   onModeChange: (mode: GenerationMode) => void;
@@ -20,6 +31,18 @@ interface SidebarProps {
   onMaxDescriptionWordsChange: (value: number[]) => void;
   selectedPlatforms: Platform[];
   onPlatformChange: (platforms: Platform[]) => void;
+  rateLimits: RateLimitSettings;
+  onRateLimitsChange: (settings: RateLimitSettings) => void;
+  providerSettings: ProviderSettings;
+  onProviderSettingsChange: (settings: ProviderSettings) => void;
+  csvSettings: CsvExportSettings;
+  onCsvSettingsChange: (settings: CsvExportSettings) => void;
+  existingMetadataMode: ExistingMetadataMode;
+  onExistingMetadataModeChange: (mode: ExistingMetadataMode) => void;
+  keywordPipeline: KeywordPipelineSettings;
+  onKeywordPipelineChange: (settings: KeywordPipelineSettings) => void;
+  restrictedTermSettings: RestrictedTermSettings;
+  onRestrictedTermSettingsChange: (settings: RestrictedTermSettings) => void;
 }
 const Sidebar: React.FC<SidebarProps> = ({
   selectedMode,
@@ -37,7 +60,19 @@ const Sidebar: React.FC<SidebarProps> = ({
   maxDescriptionWords,
   onMaxDescriptionWordsChange,
   selectedPlatforms,
-  onPlatformChange
+  onPlatformChange,
+  rateLimits,
+  onRateLimitsChange,
+  providerSettings,
+  onProviderSettingsChange,
+  csvSettings,
+  onCsvSettingsChange,
+  existingMetadataMode,
+  onExistingMetadataModeChange,
+  keywordPipeline,
+  onKeywordPipelineChange,
+  restrictedTermSettings,
+  onRestrictedTermSettingsChange
 }) => {
   return <aside className="w-80 bg-secondary border-r border-gray-700 flex flex-col h-screen overflow-auto">
       <div className="p-3 border-b border-gray-700">
@@ -49,6 +84,36 @@ const Sidebar: React.FC<SidebarProps> = ({
         <CustomizationControls minTitleWords={minTitleWords} onMinTitleWordsChange={onMinTitleWordsChange} maxTitleWords={maxTitleWords} onMaxTitleWordsChange={onMaxTitleWordsChange} minKeywords={minKeywords} onMinKeywordsChange={onMinKeywordsChange} maxKeywords={maxKeywords} onMaxKeywordsChange={onMaxKeywordsChange} minDescriptionWords={minDescriptionWords} onMinDescriptionWordsChange={onMinDescriptionWordsChange} maxDescriptionWords={maxDescriptionWords} onMaxDescriptionWordsChange={onMaxDescriptionWordsChange} />
       </div>
       
+      <div className="p-4 border-b border-gray-700">
+        <h3 className="text-sm font-medium mb-4 text-[#f68003]">Existing Metadata</h3>
+        <ExistingMetadataSelector mode={existingMetadataMode} onModeChange={onExistingMetadataModeChange} />
+      </div>
+      
+      <div className="p-4 border-b border-gray-700">
+        <h3 className="text-sm font-medium mb-4 text-[#f68003]">Keyword Cleanup</h3>
+        <KeywordPipelineControls settings={keywordPipeline} onSettingsChange={onKeywordPipelineChange} />
+      </div>
+      
+      <div className="p-4 border-b border-gray-700">
+        <h3 className="text-sm font-medium mb-4 text-[#f68003]">Restricted Terms</h3>
+        <RestrictedTermControls settings={restrictedTermSettings} onSettingsChange={onRestrictedTermSettingsChange} />
+      </div>
+      
+      <div className="p-4 border-b border-gray-700">
+        <h3 className="text-sm font-medium mb-4 text-[#f68003]">Model</h3>
+        <ModelSelector settings={providerSettings} onSettingsChange={onProviderSettingsChange} />
+      </div>
+      
+      <div className="p-4 border-b border-gray-700">
+        <h3 className="text-sm font-medium mb-4 text-[#f68003]">Rate Limits</h3>
+        <RateLimitControls settings={rateLimits} onSettingsChange={onRateLimitsChange} />
+      </div>
+      
+      <div className="p-4 border-b border-gray-700">
+        <h3 className="text-sm font-medium mb-4 text-[#f68003]">CSV Export</h3>
+        <CsvExportControls settings={csvSettings} onSettingsChange={onCsvSettingsChange} />
+      </div>
+      
       <div className="mt-auto p-4 border-t border-gray-700 my-[37px] py-[40px] mx-0 px-0">
         <UserProfile />
       </div>
@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { History } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ProcessedImage } from '@/utils/imageHelpers';
+import { diffKeywords, MetadataVersion } from '@/utils/metadataHistory';
+
+interface VersionHistoryDialogProps {
+  image: ProcessedImage;
+  onRestore: (index: number) => void;
+}
+
+const sourceLabels: Record<MetadataVersion['source'], string> = {
+  generated: 'Generated',
+  edited: 'Edited',
+  regenerated: 'Regenerated',
+  imported: 'Imported',
+  cached: 'Cached',
+};
+
+function formatVersionLabel(version: MetadataVersion, index: number): string {
+  return `v${index + 1} · ${sourceLabels[version.source]} · ${new Date(version.createdAt).toLocaleTimeString()}`;
+}
+
+// Side-by-side comparison of two versions of an image's results
+const VersionHistoryDialog: React.FC<VersionHistoryDialogProps> = ({
+  image,
+  onRestore
+}) => {
+  const history = image.history || [];
+  const current = image.historyIndex ?? history.length - 1;
+  const [fromIndex, setFromIndex] = useState(Math.max(current - 1, 0));
+  const [toIndex, setToIndex] = useState(current);
+
+  // Compare the current version with the one before it whenever the history moves
+  useEffect(() => {
+    setFromIndex(Math.max(current - 1, 0));
+    setToIndex(current);
+  }, [current, history.length]);
+
+  const from = history[fromIndex];
+  const to = history[toIndex];
+  const keywordDiff = from && to ? diffKeywords(from.result.keywords, to.result.keywords) : null;
+
+  const renderVersionSelect = (value: number, onChange: (index: number) => void) => (
+    <Select value={String(value)} onValueChange={index => onChange(Number(index))}>
+      <SelectTrigger className="h-8 text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {history.map((version, index) => (
+          <SelectItem key={index} value={String(index)} className="text-xs">
+            {formatVersionLabel(version, index)}{index === current ? ' (current)' : ''}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const renderVersion = (version: MetadataVersion, index: number, onChange: (index: number) => void) => (
+    <div className="space-y-3 min-w-0">
+      {renderVersionSelect(index, onChange)}
+      <div>
+        <h4 className="text-amber-500 text-sm">Title:</h4>
+        <p className={`text-sm ${from.result.title !== to.result.title ? 'text-white' : 'text-gray-400'}`}>{version.result.title || '—'}</p>
+      </div>
+      <div>
+        <h4 className="text-amber-500 text-sm">Description:</h4>
+        <p className={`text-sm ${from.result.description !== to.result.description ? 'text-white' : 'text-gray-400'}`}>{version.result.description || '—'}</p>
+      </div>
+      {index !== current && (
+        <Button variant="outline" size="sm" onClick={() => onRestore(index)}>
+          Restore this version
+        </Button>
+      )}
+    </div>
+  );
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-8 w-8" disabled={history.length < 2} aria-label="Version history">
+          <History className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Version History</DialogTitle>
+          <DialogDescription>{image.file.name} · {history.length} versions</DialogDescription>
+        </DialogHeader>
+
+        {from && to && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              {renderVersion(from, fromIndex, setFromIndex)}
+              {renderVersion(to, toIndex, setToIndex)}
+            </div>
+
+            <div>
+              <h4 className="text-amber-500 text-sm mb-2">Keywords:</h4>
+              <div className="flex flex-wrap gap-2">
+                {keywordDiff.removed.map(keyword => (
+                  <span key={`removed-${keyword}`} className="bg-red-900/60 text-red-200 line-through text-xs px-3 py-1 rounded-full">
+                    {keyword}
+                  </span>
+                ))}
+                {keywordDiff.added.map(keyword => (
+                  <span key={`added-${keyword}`} className="bg-green-800/60 text-green-200 text-xs px-3 py-1 rounded-full">
+                    + {keyword}
+                  </span>
+                ))}
+                {keywordDiff.kept.map(keyword => (
+                  <span key={`kept-${keyword}`} className="bg-gray-700 text-gray-300 text-xs px-3 py-1 rounded-full">
+                    {keyword}
+                  </span>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                {keywordDiff.added.length} added, {keywordDiff.removed.length} removed, {keywordDiff.kept.length} unchanged
+              </p>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default VersionHistoryDialog;
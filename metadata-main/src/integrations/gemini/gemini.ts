@@ -1,8 +1,5 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { convertSvgToPng } from '../../utils/imageUtils';
-
-// Initialize Gemini with API key
-const genAI = new GoogleGenerativeAI(import.meta.env.VITE_GEMINI_API_KEY || '');
+import { createProvider, DEFAULT_PROVIDER_SETTINGS, ImageInput, ModelProvider } from '../providers';
 
 export interface SvgAnalysisResult {
   description: string;
@@ -34,7 +31,7 @@ function extractSvgContent(content: string): string {
   }
 }
 
-export async function analyzeSvg(svgContent: string): Promise<SvgAnalysisResult> {
+export async function analyzeSvg(svgContent: string, provider?: ModelProvider): Promise<SvgAnalysisResult> {
   try {
     // Extract SVG content
     const extractedSvgContent = extractSvgContent(svgContent);
@@ -46,7 +43,7 @@ export async function analyzeSvg(svgContent: string): Promise<SvgAnalysisResult>
       .trim();
 
     // Try to convert SVG to PNG for better API compatibility
-    let imagePart;
+    let imagePart: ImageInput | null;
     try {
       // Convert SVG to PNG
       const pngFile = await convertSvgToPng(cleanSvgContent);
@@ -54,12 +51,10 @@ export async function analyzeSvg(svgContent: string): Promise<SvgAnalysisResult>
       // Read PNG as base64
       const base64Image = await readFileAsBase64(pngFile);
       
-      // Create image part for Gemini API
+      // Create image part for the model request
       imagePart = {
-        inlineData: {
-          data: base64Image.split(',')[1],
-          mimeType: 'image/png'
-        }
+        data: base64Image.split(',')[1],
+        mimeType: 'image/png'
       };
       
       console.log('Using PNG conversion for SVG analysis');
@@ -69,9 +64,12 @@ export async function analyzeSvg(svgContent: string): Promise<SvgAnalysisResult>
       imagePart = null;
     }
 
-    // Get the generative model - use Gemini Pro Vision if we have an image, otherwise Gemini Pro
-    const modelName = imagePart ? 'gemini-1.5-flash' : 'gemini-pro';
-    const model = genAI.getGenerativeModel({ model: modelName });
+    // Default to the registry's Gemini model with the environment key; text-only analysis can fall back to any model
+    const model = provider || createProvider(
+      DEFAULT_PROVIDER_SETTINGS,
+      import.meta.env.VITE_GEMINI_API_KEY || '',
+      { requirements: { vision: !!imagePart } }
+    );
 
     // Create a more detailed prompt for SVG analysis
     const prompt = `
@@ -91,18 +89,11 @@ export async function analyzeSvg(svgContent: string): Promise<SvgAnalysisResult>
       Please format your response with numbered sections (1., 2., 3.) and use clear, technical language.
     `;
 
-    // Generate content based on whether we have an image or not
-    let result;
-    if (imagePart) {
-      // Use image-based analysis
-      result = await model.generateContent([prompt, imagePart]);
-    } else {
-      // Use text-based analysis
-      result = await model.generateContent(prompt);
-    }
-    
-    const response = await result.response;
-    const text = response.text();
+    // Use image-based analysis if we have an image, otherwise text-based analysis
+    const text = await model.generate({
+      prompt,
+      image: imagePart || undefined
+    });
 
     // Parse the response into structured data
     const sections = text.split('\n\n');
@@ -161,8 +152,8 @@ export async function analyzeSvg(svgContent: string): Promise<SvgAnalysisResult>
       metadata: Object.keys(metadata).length > 0 ? metadata : { note: 'No metadata detected' }
     };
   } catch (error) {
-    console.error('Error analyzing SVG with Gemini:', error);
-    throw new Error('Failed to analyze SVG with Gemini');
+    console.error('Error analyzing SVG:', error);
+    throw new Error('Failed to analyze SVG');
   }
 }
 
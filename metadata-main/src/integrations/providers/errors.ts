@@ -0,0 +1,62 @@
+import { RetryableFailure } from '@/utils/processingQueue';
+
+// HTTP statuses that mean "try again later" rather than a bad request
+const RETRYABLE_STATUSES = [429, 500, 502, 503];
+
+// Error thrown for failed API requests so the queue can back off and retry
+export class ApiRequestError extends Error implements RetryableFailure {
+  status: number;
+  retryable: boolean;
+  retryAfterMs?: number;
+
+  constructor(message: string, status: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ApiRequestError';
+    this.status = status;
+    this.retryable = RETRYABLE_STATUSES.includes(status);
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Builds an ApiRequestError from a failed response
+ * @param response - The non-OK fetch response
+ * @param fallbackMessage - Message used when the body has none
+ */
+export async function toApiRequestError(response: Response, fallbackMessage: string): Promise<ApiRequestError> {
+  const errorData = await response.json().catch(() => null);
+  console.error('API error:', errorData);
+
+  const message = errorData?.error?.message || errorData?.error || fallbackMessage;
+  return new ApiRequestError(
+    typeof message === 'string' ? message : fallbackMessage,
+    response.status,
+    getRetryAfterMs(response, errorData)
+  );
+}
+
+// Read the retry delay from the Retry-After header or Gemini's RetryInfo error detail
+function getRetryAfterMs(response: Response, errorData: unknown): number | undefined {
+  const header = response.headers.get('Retry-After');
+  if (header) {
+    const seconds = Number(header);
+    if (!Number.isNaN(seconds)) {
+      return seconds * 1000;
+    }
+    const date = Date.parse(header);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+
+  const details = (errorData as { error?: { details?: { retryDelay?: string }[] } })?.error?.details || [];
+  const retryDelay = Array.isArray(details) ? details.find(detail => detail.retryDelay)?.retryDelay : undefined;
+  if (retryDelay) {
+    const seconds = parseFloat(retryDelay);
+    if (!Number.isNaN(seconds)) {
+      return seconds * 1000;
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,58 @@
+import { GenerateRequest, ModelProvider } from './types';
+import { toApiRequestError } from './errors';
+import { getDefaultModel, getModelInfo } from './modelRegistry';
+
+const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+export const DEFAULT_GEMINI_MODEL = getDefaultModel('gemini', { vision: true });
+
+// Google Gemini through the generateContent REST endpoint
+export function createGeminiProvider(apiKey: string, model = DEFAULT_GEMINI_MODEL): ModelProvider {
+  // 2.5 models think before answering unless told not to; Pro can only be held to a small budget
+  const thinkingBudget = getModelInfo(model)?.thinkingBudget;
+
+  const generate = async (request: GenerateRequest): Promise<string> => {
+    const parts: unknown[] = [{ text: request.prompt }];
+    if (request.image) {
+      parts.push({
+        inline_data: {
+          mime_type: request.image.mimeType,
+          data: request.image.data,
+        },
+      });
+    }
+
+    const response = await fetch(`${GEMINI_API_URL}/${model}:generateContent?key=${apiKey}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      signal: request.signal,
+      body: JSON.stringify({
+        contents: [{ parts }],
+        generationConfig: {
+          temperature: request.temperature ?? 0.4,
+          topK: 32,
+          topP: 0.95,
+          maxOutputTokens: request.maxOutputTokens,
+          ...(thinkingBudget !== undefined && {
+            thinkingConfig: { thinkingBudget },
+          }),
+          ...(request.responseSchema && {
+            responseMimeType: 'application/json',
+            responseSchema: request.responseSchema,
+          }),
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      throw await toApiRequestError(response, 'Failed to analyze image');
+    }
+
+    const data = await response.json();
+    return data.candidates?.[0]?.content?.parts?.[0]?.text || '';
+  };
+
+  return { id: 'gemini', model, generate };
+}
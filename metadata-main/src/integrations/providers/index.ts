@@ -0,0 +1,150 @@
+import { GenerateRequest, ModelProvider, ProviderId, ProviderSettings } from './types';
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from './gemini';
+import { createOpenAICompatibleProvider, DEFAULT_OPENAI_BASE_URL, DEFAULT_OPENAI_MODEL } from './openai';
+import { createOllamaProvider, DEFAULT_OLLAMA_BASE_URL, DEFAULT_OLLAMA_MODEL } from './ollama';
+import { getFallbackChain, isModelUnavailableError, ModelRequirements } from './modelRegistry';
+
+export * from './types';
+export { ApiRequestError } from './errors';
+export * from './modelRegistry';
+export { createGeminiProvider, createOpenAICompatibleProvider, createOllamaProvider };
+
+const PROVIDER_SETTINGS_KEY = 'model-provider-settings';
+
+// Settings fields each provider shows; the Gemini key is entered in the header and the model picked in the sidebar
+export const providerOptions: {
+  id: ProviderId;
+  name: string;
+  fields: ('baseUrl' | 'apiKey' | 'model')[];
+  defaults: Pick<ProviderSettings, 'model' | 'baseUrl'>;
+}[] = [
+  {
+    id: 'gemini',
+    name: 'Google Gemini',
+    fields: [],
+    defaults: { model: DEFAULT_GEMINI_MODEL, baseUrl: '' }
+  },
+  {
+    id: 'openai',
+    name: 'OpenAI-compatible',
+    fields: ['baseUrl', 'apiKey', 'model'],
+    defaults: { model: DEFAULT_OPENAI_MODEL, baseUrl: DEFAULT_OPENAI_BASE_URL }
+  },
+  {
+    id: 'ollama',
+    name: 'Local (Ollama)',
+    fields: ['baseUrl', 'model'],
+    defaults: { model: DEFAULT_OLLAMA_MODEL, baseUrl: DEFAULT_OLLAMA_BASE_URL }
+  }
+];
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  id: 'gemini',
+  model: DEFAULT_GEMINI_MODEL,
+  baseUrl: '',
+  apiKey: ''
+};
+
+// Get the default settings when switching to another provider
+export function getProviderDefaults(id: ProviderId): ProviderSettings {
+  const option = providerOptions.find(p => p.id === id) || providerOptions[0];
+  return { id: option.id, apiKey: '', ...option.defaults };
+}
+
+interface CreateProviderOptions {
+  // Capabilities a fallback model must have
+  requirements?: ModelRequirements;
+  // Called when the chosen model is unavailable and another one takes over
+  onFallback?: (fromModel: string, toModel: string) => void;
+}
+
+function createProviderForModel(settings: ProviderSettings, geminiApiKey: string, model: string): ModelProvider {
+  switch (settings.id) {
+    case 'openai':
+      return createOpenAICompatibleProvider(settings.baseUrl || DEFAULT_OPENAI_BASE_URL, settings.apiKey, model);
+    case 'ollama':
+      return createOllamaProvider(settings.baseUrl || DEFAULT_OLLAMA_BASE_URL, model);
+    case 'gemini':
+    default:
+      return createGeminiProvider(geminiApiKey, model);
+  }
+}
+
+function getSelectedModel(settings: ProviderSettings): string {
+  if (settings.model) {
+    return settings.model;
+  }
+  if (settings.id === 'openai') return DEFAULT_OPENAI_MODEL;
+  if (settings.id === 'ollama') return DEFAULT_OLLAMA_MODEL;
+  return DEFAULT_GEMINI_MODEL;
+}
+
+/**
+ * Creates the provider for the given settings
+ * If the selected model is retired or not found, requests move on to the next capable model.
+ * @param settings - The selected provider and its connection details
+ * @param geminiApiKey - Gemini keeps using the key entered in the header
+ * @param options - Fallback requirements and notification
+ */
+export function createProvider(
+  settings: ProviderSettings,
+  geminiApiKey: string,
+  options: CreateProviderOptions = {}
+): ModelProvider {
+  const models = getFallbackChain(settings.id, getSelectedModel(settings), options.requirements);
+  let index = 0;
+  let current = createProviderForModel(settings, geminiApiKey, models[0]);
+
+  const generate = async (request: GenerateRequest): Promise<string> => {
+    for (;;) {
+      const active = current;
+      try {
+        return await active.generate(request);
+      } catch (error) {
+        if (!isModelUnavailableError(error)) {
+          throw error;
+        }
+        // A concurrent request may already have switched to the next model
+        if (active === current) {
+          if (index + 1 >= models.length) {
+            throw error;
+          }
+          index++;
+          current = createProviderForModel(settings, geminiApiKey, models[index]);
+          console.warn(`Model ${active.model} is unavailable, falling back to ${current.model}`);
+          options.onFallback?.(active.model, current.model);
+        }
+      }
+    }
+  };
+
+  return {
+    id: settings.id,
+    get model() {
+      return current.model;
+    },
+    generate
+  };
+}
+
+// Check if the selected provider has what it needs to run
+export function isProviderReady(settings: ProviderSettings, geminiApiKey: string): boolean {
+  if (settings.id === 'gemini') {
+    return !!geminiApiKey;
+  }
+  return !!settings.baseUrl && !!settings.model;
+}
+
+export function loadProviderSettings(): ProviderSettings {
+  try {
+    const saved = localStorage.getItem(PROVIDER_SETTINGS_KEY);
+    return saved ? { ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(saved) } : DEFAULT_PROVIDER_SETTINGS;
+  } catch (error) {
+    console.error('Error loading provider settings:', error);
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+}
+
+export function saveProviderSettings(settings: ProviderSettings): void {
+  localStorage.setItem(PROVIDER_SETTINGS_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,153 @@
+import { ProviderId } from './types';
+import { ApiRequestError } from './errors';
+
+export interface ModelInfo {
+  id: string;
+  name: string;
+  provider: ProviderId;
+  // Accepts image input
+  vision: boolean;
+  // Supports a response schema / JSON output mode
+  jsonMode: boolean;
+  inputTokenLimit: number;
+  outputTokenLimit: number;
+  // Thinking tokens allowed for models that think by default; they count against the output cap
+  thinkingBudget?: number;
+}
+
+export interface ModelRequirements {
+  vision?: boolean;
+  jsonMode?: boolean;
+}
+
+/**
+ * Known models, in order of preference per provider.
+ * When a model is retired, the next capable model in this list is used instead.
+ */
+export const modelRegistry: ModelInfo[] = [
+  {
+    id: 'gemini-2.5-flash',
+    name: 'Gemini 2.5 Flash',
+    provider: 'gemini',
+    vision: true,
+    jsonMode: true,
+    inputTokenLimit: 1048576,
+    outputTokenLimit: 65536,
+    thinkingBudget: 0
+  },
+  {
+    id: 'gemini-2.5-flash-lite',
+    name: 'Gemini 2.5 Flash-Lite',
+    provider: 'gemini',
+    vision: true,
+    jsonMode: true,
+    inputTokenLimit: 1048576,
+    outputTokenLimit: 65536,
+    thinkingBudget: 0
+  },
+  {
+    id: 'gemini-2.0-flash',
+    name: 'Gemini 2.0 Flash',
+    provider: 'gemini',
+    vision: true,
+    jsonMode: true,
+    inputTokenLimit: 1048576,
+    outputTokenLimit: 8192
+  },
+  {
+    id: 'gemini-2.5-pro',
+    name: 'Gemini 2.5 Pro',
+    provider: 'gemini',
+    vision: true,
+    jsonMode: true,
+    inputTokenLimit: 1048576,
+    outputTokenLimit: 65536,
+    thinkingBudget: 128
+  },
+  {
+    id: 'gemini-1.5-flash',
+    name: 'Gemini 1.5 Flash',
+    provider: 'gemini',
+    vision: true,
+    jsonMode: true,
+    inputTokenLimit: 1048576,
+    outputTokenLimit: 8192
+  },
+  {
+    id: 'gpt-4o-mini',
+    name: 'GPT-4o mini',
+    provider: 'openai',
+    vision: true,
+    jsonMode: true,
+    inputTokenLimit: 128000,
+    outputTokenLimit: 16384
+  },
+  {
+    id: 'gpt-4o',
+    name: 'GPT-4o',
+    provider: 'openai',
+    vision: true,
+    jsonMode: true,
+    inputTokenLimit: 128000,
+    outputTokenLimit: 16384
+  },
+  {
+    id: 'llava',
+    name: 'LLaVA',
+    provider: 'ollama',
+    vision: true,
+    jsonMode: true,
+    inputTokenLimit: 4096,
+    outputTokenLimit: 2048
+  },
+  {
+    id: 'llama3.2-vision',
+    name: 'Llama 3.2 Vision',
+    provider: 'ollama',
+    vision: true,
+    jsonMode: true,
+    inputTokenLimit: 128000,
+    outputTokenLimit: 2048
+  }
+];
+
+// Get the registry entry for a model, if it is a known one
+export function getModelInfo(modelId: string): ModelInfo | undefined {
+  return modelRegistry.find(model => model.id === modelId);
+}
+
+// Get the known models for a provider that meet the requirements
+export function getModelsForProvider(provider: ProviderId, requirements: ModelRequirements = {}): ModelInfo[] {
+  return modelRegistry.filter(model =>
+    model.provider === provider &&
+    (!requirements.vision || model.vision) &&
+    (!requirements.jsonMode || model.jsonMode)
+  );
+}
+
+// Get the preferred model for a provider
+export function getDefaultModel(provider: ProviderId, requirements: ModelRequirements = {}): string {
+  return getModelsForProvider(provider, requirements)[0]?.id || '';
+}
+
+/**
+ * Lists the models to try in order: the chosen one first, then the other capable models
+ * @param provider - The provider the models belong to
+ * @param modelId - The model the user picked
+ * @param requirements - Capabilities a fallback model must have
+ */
+export function getFallbackChain(provider: ProviderId, modelId: string, requirements: ModelRequirements = {}): string[] {
+  const fallbacks = getModelsForProvider(provider, requirements)
+    .map(model => model.id)
+    .filter(id => id !== modelId);
+  return [modelId, ...fallbacks];
+}
+
+// Check if an error means the model itself is gone, rather than the request being bad.
+// A 404 alone can also mean a wrong base URL or endpoint path, so the message must name the model
+export function isModelUnavailableError(error: unknown): boolean {
+  if (!(error instanceof ApiRequestError) || !/\bmodels?\b/i.test(error.message)) {
+    return false;
+  }
+  return error.status === 404 || /not found|does not exist|deprecated|no longer (available|supported)|retired|decommissioned/i.test(error.message);
+}
@@ -0,0 +1,43 @@
+import { GenerateRequest, ModelProvider } from './types';
+import { toApiRequestError } from './errors';
+import { toJsonSchema } from '@/utils/metadataSchema';
+import { getDefaultModel } from './modelRegistry';
+
+export const DEFAULT_OLLAMA_BASE_URL = 'http://localhost:11434';
+export const DEFAULT_OLLAMA_MODEL = getDefaultModel('ollama', { vision: true });
+
+// A local Ollama-style server; images never leave the machine
+export function createOllamaProvider(
+  baseUrl = DEFAULT_OLLAMA_BASE_URL,
+  model = DEFAULT_OLLAMA_MODEL
+): ModelProvider {
+  const generate = async (request: GenerateRequest): Promise<string> => {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/api/generate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      signal: request.signal,
+      body: JSON.stringify({
+        model,
+        prompt: request.prompt,
+        images: request.image ? [request.image.data] : undefined,
+        stream: false,
+        format: request.responseSchema ? toJsonSchema(request.responseSchema) : undefined,
+        options: {
+          temperature: request.temperature ?? 0.4,
+          num_predict: request.maxOutputTokens,
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      throw await toApiRequestError(response, 'Failed to analyze image');
+    }
+
+    const data = await response.json();
+    return data.response || '';
+  };
+
+  return { id: 'ollama', model, generate };
+}
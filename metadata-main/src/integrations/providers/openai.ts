@@ -0,0 +1,57 @@
+import { GenerateRequest, ModelProvider } from './types';
+import { toApiRequestError } from './errors';
+import { toJsonSchema } from '@/utils/metadataSchema';
+import { getDefaultModel } from './modelRegistry';
+
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+export const DEFAULT_OPENAI_MODEL = getDefaultModel('openai', { vision: true });
+
+// Any endpoint implementing the OpenAI chat completions API with vision input
+export function createOpenAICompatibleProvider(
+  baseUrl = DEFAULT_OPENAI_BASE_URL,
+  apiKey = '',
+  model = DEFAULT_OPENAI_MODEL
+): ModelProvider {
+  const generate = async (request: GenerateRequest): Promise<string> => {
+    const content: unknown[] = [{ type: 'text', text: request.prompt }];
+    if (request.image) {
+      content.push({
+        type: 'image_url',
+        image_url: { url: `data:${request.image.mimeType};base64,${request.image.data}` },
+      });
+    }
+
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+      },
+      signal: request.signal,
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content }],
+        temperature: request.temperature ?? 0.4,
+        max_tokens: request.maxOutputTokens,
+        ...(request.responseSchema && {
+          response_format: {
+            type: 'json_schema',
+            json_schema: {
+              name: 'metadata',
+              schema: toJsonSchema(request.responseSchema),
+            },
+          },
+        }),
+      }),
+    });
+
+    if (!response.ok) {
+      throw await toApiRequestError(response, 'Failed to analyze image');
+    }
+
+    const data = await response.json();
+    return data.choices?.[0]?.message?.content || '';
+  };
+
+  return { id: 'openai', model, generate };
+}
@@ -0,0 +1,33 @@
+import { ResponseSchema } from '@/utils/metadataSchema';
+
+export type ProviderId = 'gemini' | 'openai' | 'ollama';
+
+// Base64 image data without the data URL prefix
+export interface ImageInput {
+  mimeType: string;
+  data: string;
+}
+
+export interface GenerateRequest {
+  prompt: string;
+  image?: ImageInput;
+  // When set, the provider is asked for JSON matching this schema
+  responseSchema?: ResponseSchema;
+  maxOutputTokens?: number;
+  temperature?: number;
+  signal?: AbortSignal;
+}
+
+// A model backend that takes an image plus a prompt and returns text
+export interface ModelProvider {
+  id: ProviderId;
+  model: string;
+  generate: (request: GenerateRequest) => Promise<string>;
+}
+
+export interface ProviderSettings {
+  id: ProviderId;
+  model: string;
+  baseUrl: string;
+  apiKey: string;
+}
@@ -9,6 +9,64 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      generation_history: {
+        Row: {
+          cache_key: string | null
+          categories: string[]
+          created_at: string
+          description: string
+          filename: string
+          id: string
+          keywords: string[]
+          base_model: string | null
+          model: string | null
+          perceptual_hash: string | null
+          pinned_keywords: string[]
+          platform: string
+          prompt: string | null
+          search: unknown | null
+          thumbnail_path: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          cache_key?: string | null
+          categories?: string[]
+          created_at?: string
+          description?: string
+          filename: string
+          id?: string
+          keywords?: string[]
+          base_model?: string | null
+          model?: string | null
+          perceptual_hash?: string | null
+          pinned_keywords?: string[]
+          platform: string
+          prompt?: string | null
+          thumbnail_path?: string | null
+          title?: string
+          user_id: string
+        }
+        Update: {
+          cache_key?: string | null
+          categories?: string[]
+          created_at?: string
+          description?: string
+          filename?: string
+          id?: string
+          keywords?: string[]
+          base_model?: string | null
+          model?: string | null
+          perceptual_hash?: string | null
+          pinned_keywords?: string[]
+          platform?: string
+          prompt?: string | null
+          thumbnail_path?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       image_metadata_generations: {
         Row: {
           created_at: string | null
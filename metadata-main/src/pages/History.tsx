@@ -0,0 +1,234 @@
+import React, { useEffect, useState } from 'react';
+import { Navigate } from 'react-router-dom';
+import { Download, Loader2, Search } from 'lucide-react';
+import { toast } from 'sonner';
+import AppHeader from '@/components/AppHeader';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/context/AuthContext';
+import { loadProviderSettings, ProviderSettings, saveProviderSettings } from '@/integrations/providers';
+import { downloadCSV } from '@/utils/imageHelpers';
+import { formatPlatformCSV } from '@/utils/platformExporters';
+import { getPlatformDefinitions } from '@/utils/platformDefinitions';
+import {
+  GenerationHistoryRow,
+  getThumbnailUrls,
+  historyRowsToImages,
+  HistoryFilters,
+  searchGenerationHistory
+} from '@/utils/generationHistory';
+
+const ALL_PLATFORMS = 'all';
+
+const HistoryPage: React.FC = () => {
+  const { user, isLoading, profile, apiKey: authApiKey } = useAuth();
+  const [apiKey, setApiKey] = useState('');
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const [filters, setFilters] = useState<HistoryFilters>({});
+  const [query, setQuery] = useState('');
+  const [rows, setRows] = useState<GenerationHistoryRow[]>([]);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isSearching, setIsSearching] = useState(false);
+
+  // Same key as the generator page, so edits made in the header carry over
+  useEffect(() => {
+    const savedKey = localStorage.getItem('gemini-api-key') || authApiKey;
+    if (savedKey) {
+      setApiKey(savedKey);
+    }
+  }, [authApiKey]);
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+
+    setIsSearching(true);
+    searchGenerationHistory(filters)
+      .then(async results => {
+        if (cancelled) return;
+        setRows(results);
+        setSelectedIds(new Set());
+        const urls = await getThumbnailUrls(results);
+        if (!cancelled) setThumbnails(urls);
+      })
+      .catch(error => {
+        console.error('Error searching history:', error);
+        toast.error('Failed to load history');
+      })
+      .finally(() => {
+        if (!cancelled) setIsSearching(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, filters]);
+
+  if (isLoading) {
+    return <div className="flex min-h-screen items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>;
+  }
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  const handleProviderSettingsChange = (settings: ProviderSettings) => {
+    setProviderSettings(settings);
+    saveProviderSettings(settings);
+  };
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  // One CSV per platform in its upload layout; the selection if there is one, otherwise every result shown
+  const handleExport = () => {
+    const exportRows = selectedIds.size > 0 ? rows.filter(row => selectedIds.has(row.id)) : rows;
+    const platforms = Array.from(new Set(exportRows.map(row => row.platform)));
+
+    for (const platform of platforms) {
+      const images = historyRowsToImages(exportRows.filter(row => row.platform === platform));
+      downloadCSV(formatPlatformCSV(images, platform), `image-metadata-${platform}.csv`, platform);
+    }
+    toast.success(`${platforms.length} CSV file${platforms.length !== 1 ? 's' : ''} downloaded`);
+  };
+
+  const remainingCredits = profile?.is_premium ? '∞' : Math.max(0, 10 - (profile?.credits_used || 0));
+
+  return <div className="flex min-h-screen flex-col bg-background text-foreground">
+      <AppHeader
+        remainingCredits={remainingCredits}
+        apiKey={apiKey}
+        onApiKeyChange={setApiKey}
+        providerSettings={providerSettings}
+        onProviderSettingsChange={handleProviderSettingsChange}
+      />
+
+      <div className="flex-1 p-6">
+        <div className="max-w-5xl mx-auto space-y-6">
+          <div>
+            <h1 className="text-2xl font-bold">Generation History</h1>
+            <p className="text-sm text-gray-400">Search everything you have generated and export it again.</p>
+          </div>
+
+          <form
+            className="flex flex-wrap items-end gap-3"
+            onSubmit={e => {
+              e.preventDefault();
+              setFilters(prev => ({ ...prev, query }));
+            }}
+          >
+            <div className="flex-1 min-w-[240px]">
+              <Input
+                value={query}
+                onChange={e => setQuery(e.target.value)}
+                placeholder='Search titles, descriptions, keywords and filenames, e.g. coffee cup -tea'
+                className="bg-gray-800 border-gray-700"
+              />
+            </div>
+            <Select
+              value={filters.platform || ALL_PLATFORMS}
+              onValueChange={value => setFilters(prev => ({ ...prev, platform: value === ALL_PLATFORMS ? undefined : value }))}
+            >
+              <SelectTrigger className="w-40 bg-gray-800 border-gray-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_PLATFORMS}>All platforms</SelectItem>
+                {getPlatformDefinitions().map(definition => (
+                  <SelectItem key={definition.id} value={definition.id}>{definition.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="date"
+              value={filters.from || ''}
+              onChange={e => setFilters(prev => ({ ...prev, from: e.target.value || undefined }))}
+              className="w-40 bg-gray-800 border-gray-700"
+              aria-label="From date"
+            />
+            <Input
+              type="date"
+              value={filters.to || ''}
+              onChange={e => setFilters(prev => ({ ...prev, to: e.target.value || undefined }))}
+              className="w-40 bg-gray-800 border-gray-700"
+              aria-label="To date"
+            />
+            <Button type="submit" className="flex items-center gap-1">
+              <Search className="h-4 w-4" />
+              Search
+            </Button>
+          </form>
+
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-400">
+              {isSearching ? 'Searching...' : `${rows.length} result${rows.length !== 1 ? 's' : ''}${selectedIds.size > 0 ? `, ${selectedIds.size} selected` : ''}`}
+            </p>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleExport}
+              disabled={rows.length === 0}
+              className="flex items-center gap-1 bg-orange-600 hover:bg-orange-700 text-white border-none"
+            >
+              <Download className="h-4 w-4" />
+              <span>{selectedIds.size > 0 ? 'Export Selected' : 'Export All'}</span>
+            </Button>
+          </div>
+
+          <div className="space-y-3">
+            {rows.map(row => (
+              <div key={row.id} className="flex gap-4 p-4 bg-gray-800/30 border border-gray-700/50 rounded-lg">
+                <Checkbox
+                  checked={selectedIds.has(row.id)}
+                  onCheckedChange={checked => toggleSelected(row.id, checked === true)}
+                  aria-label={`Select ${row.filename}`}
+                  className="mt-1"
+                />
+                <div className="h-20 w-20 flex-shrink-0 overflow-hidden rounded bg-gray-700">
+                  {row.thumbnail_path && thumbnails[row.thumbnail_path] && (
+                    <img src={thumbnails[row.thumbnail_path]} alt={row.filename} className="h-full w-full object-cover" />
+                  )}
+                </div>
+                <div className="min-w-0 flex-1 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+                    <span className="font-medium text-white text-sm truncate">{row.filename}</span>
+                    <span className="bg-blue-900/40 text-blue-300 px-2 py-0.5 rounded">{row.platform}</span>
+                    <span>{new Date(row.created_at).toLocaleString()}</span>
+                    {row.model && <span>{row.model}</span>}
+                  </div>
+                  {row.title && <p className="text-sm text-white">{row.title}</p>}
+                  {row.description && <p className="text-sm text-gray-300">{row.description}</p>}
+                  <div className="flex flex-wrap gap-1">
+                    {row.keywords.map((keyword, index) => (
+                      <span key={index} className="bg-blue-600 text-white text-xs px-2 py-0.5 rounded-full">{keyword}</span>
+                    ))}
+                    {row.categories.map((category, index) => (
+                      <span key={`category-${index}`} className="bg-purple-600 text-white text-xs px-2 py-0.5 rounded-full">{category}</span>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            ))}
+            {!isSearching && rows.length === 0 && (
+              <p className="text-center text-gray-400 py-10">No results found</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>;
+};
+
+export default HistoryPage;
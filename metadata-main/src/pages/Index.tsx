@@ -1,26 +1,65 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Navigate, useNavigate } from 'react-router-dom';
 import ApiKeyInput from '@/components/ApiKeyInput';
 import ImageUploader from '@/components/ImageUploader';
 import ResultsDisplay from '@/components/ResultsDisplay';
 import ThemeToggle from '@/components/ThemeToggle';
 import { Button } from '@/components/ui/button';
-import { ProcessedImage } from '@/utils/imageHelpers';
-import { analyzeImageWithGemini } from '@/utils/geminiApi';
+import { createImagePreview, ImageMetadata, ProcessedImage, updateImageResult } from '@/utils/imageHelpers';
+import { recordVersion, redo, restoreVersion, undo, VersionSource } from '@/utils/metadataHistory';
+import { findHistoryResult, findSimilarInHistory, saveGenerationHistory } from '@/utils/generationHistory';
+import { findDuplicateClusters } from '@/utils/perceptualHash';
+import { cacheImageResult, CachedResult, CacheSettings, getCachedResult, getResultCacheKey, hashFile, putCachedResult } from '@/utils/resultCache';
+import { clearSession, loadSession, saveSession, SavedSession } from '@/utils/sessionStore';
+import { analyzeImageWithGemini, AnalysisOptions, AnalysisResult, applySharedEdit, detectRestrictedTerms, RegenerableField } from '@/utils/geminiApi';
+import { createProvider, isProviderReady, loadProviderSettings, saveProviderSettings, ProviderSettings } from '@/integrations/providers';
+import { createRateLimiter, createQueueControl, processQueue, QueueControl, RateLimitSettings, DEFAULT_RATE_LIMITS } from '@/utils/processingQueue';
+import { CsvExportSettings } from '@/utils/platformExporters';
+import { CsvImportResult } from '@/utils/csvImport';
+import { DEFAULT_CSV_OPTIONS } from '@/utils/csv';
+import { DEFAULT_KEYWORD_PIPELINE, KeywordPipelineSettings } from '@/utils/keywordPipeline';
+import { getPlatformDefinition } from '@/utils/platformDefinitions';
+import { DEFAULT_RESTRICTED_TERM_SETTINGS, PlatformTermViolation, removePlatformViolation, RestrictedTermSettings } from '@/utils/restrictedTerms';
 import { toast } from 'sonner';
-import { Sparkles, Loader2, ShieldAlert, Image, Info } from 'lucide-react';
+import { Sparkles, Loader2, ShieldAlert, Image, Info, Pause, Play, Square, RotateCcw } from 'lucide-react';
 import { useAuth } from '@/context/AuthContext';
 import { Platform } from '@/components/PlatformSelector';
 import PlatformSelector from '@/components/PlatformSelector';
 import GenerationModeSelector, { GenerationMode } from '@/components/GenerationModeSelector';
+import { ExistingMetadataMode } from '@/components/ExistingMetadataSelector';
+import { DuplicateMode } from '@/components/DuplicatesPanel';
 import { Separator } from '@/components/ui/separator';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import AppHeader from '@/components/AppHeader';
 import Sidebar from '@/components/Sidebar';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
 
 // Updated payment gateway link
 const PAYMENT_GATEWAY_URL = "https://secure-pay.nagorikpay.com/api/execute/9c7e8b9c01fea1eabdf4d4a37b685e0a";
 
+// Options saved with the working batch
+interface SessionSettings {
+  platforms: Platform[];
+  generationMode: GenerationMode;
+  minTitleWords: number;
+  maxTitleWords: number;
+  minKeywords: number;
+  maxKeywords: number;
+  minDescriptionWords: number;
+  maxDescriptionWords: number;
+  // Options of the batch that was running, used to resume it
+  batchOptions?: AnalysisOptions;
+}
+
 const Index: React.FC = () => {
   const {
     user,
@@ -32,8 +71,13 @@ const Index: React.FC = () => {
   } = useAuth();
 
   const [apiKey, setApiKey] = useState('');
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
   const [images, setImages] = useState<ProcessedImage[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const queueControlRef = useRef<QueueControl | null>(null);
+  // Options of the last batch, reused when retrying failed images
+  const lastBatchOptionsRef = useRef<AnalysisOptions | null>(null);
   const [titleLength, setTitleLength] = useState(200);
   const [descriptionLength, setDescriptionLength] = useState(200);
   const [keywordCount, setKeywordCount] = useState(50);
@@ -54,6 +98,35 @@ const Index: React.FC = () => {
   const [minDescriptionWords, setMinDescriptionWords] = useState(12); // Updated to 12
   const [maxDescriptionWords, setMaxDescriptionWords] = useState(30);
   
+  // Rate limits depend on the API key's tier, so they are kept between sessions
+  const [rateLimits, setRateLimits] = useState<RateLimitSettings>(() => {
+    const saved = localStorage.getItem('rate-limit-settings');
+    return saved ? { ...DEFAULT_RATE_LIMITS, ...JSON.parse(saved) } : DEFAULT_RATE_LIMITS;
+  });
+  
+  const [csvSettings, setCsvSettings] = useState<CsvExportSettings>(() => {
+    const defaults = { lineEnding: DEFAULT_CSV_OPTIONS.lineEnding, bom: DEFAULT_CSV_OPTIONS.bom };
+    const saved = localStorage.getItem('csv-export-settings');
+    return saved ? { ...defaults, ...JSON.parse(saved) } : defaults;
+  });
+  
+  const [keywordPipeline, setKeywordPipeline] = useState<KeywordPipelineSettings>(() => {
+    const saved = localStorage.getItem('keyword-pipeline-settings');
+    return saved ? { ...DEFAULT_KEYWORD_PIPELINE, ...JSON.parse(saved) } : DEFAULT_KEYWORD_PIPELINE;
+  });
+  
+  const [restrictedTermSettings, setRestrictedTermSettings] = useState<RestrictedTermSettings>(() => {
+    const saved = localStorage.getItem('restricted-term-settings');
+    return saved ? { ...DEFAULT_RESTRICTED_TERM_SETTINGS, ...JSON.parse(saved) } : DEFAULT_RESTRICTED_TERM_SETTINGS;
+  });
+  
+  const [existingMetadataMode, setExistingMetadataMode] = useState<ExistingMetadataMode>(
+    () => (localStorage.getItem('existing-metadata-mode') as ExistingMetadataMode) || 'merge'
+  );
+  const [duplicateMode, setDuplicateMode] = useState<DuplicateMode>(
+    () => (localStorage.getItem('duplicate-mode') as DuplicateMode) || 'separate'
+  );
+  
   // Get API key from localStorage or auth context
   useEffect(() => {
     const savedKey = localStorage.getItem('gemini-api-key') || authApiKey;
@@ -62,6 +135,45 @@ const Index: React.FC = () => {
     }
   }, [authApiKey]);
   
+  // A batch saved before the last reload, waiting for the user to restore or discard it
+  const [savedSession, setSavedSession] = useState<SavedSession<SessionSettings> | null>(null);
+  // Saving starts once any saved batch has been dealt with, so it isn't overwritten by the empty start state
+  const [sessionReady, setSessionReady] = useState(false);
+  
+  useEffect(() => {
+    loadSession<SessionSettings>()
+      .then(session => {
+        if (session) {
+          setSavedSession(session);
+        } else {
+          setSessionReady(true);
+        }
+      })
+      .catch(error => {
+        console.warn('Could not load the saved session:', error);
+        setSessionReady(true);
+      });
+  }, []);
+  
+  useEffect(() => {
+    if (!sessionReady) return;
+    const timer = setTimeout(() => {
+      const settings: SessionSettings = {
+        platforms,
+        generationMode,
+        minTitleWords,
+        maxTitleWords,
+        minKeywords,
+        maxKeywords,
+        minDescriptionWords,
+        maxDescriptionWords,
+        batchOptions: lastBatchOptionsRef.current || undefined
+      };
+      saveSession(images, settings).catch(error => console.warn('Could not save the session:', error));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [sessionReady, images, platforms, generationMode, minTitleWords, maxTitleWords, minKeywords, maxKeywords, minDescriptionWords, maxDescriptionWords]);
+  
   useEffect(() => {
     if (!isLoading && !user) {
       setShouldRedirect(true);
@@ -82,8 +194,39 @@ const Index: React.FC = () => {
     setApiKey(key);
   };
   
+  const handleProviderSettingsChange = (settings: ProviderSettings) => {
+    setProviderSettings(settings);
+    saveProviderSettings(settings);
+  };
+  
   const handleImagesSelected = (newImages: ProcessedImage[]) => {
     setImages(prev => [...prev, ...newImages]);
+    
+    // Flag uploads that look like files processed before
+    if (user) {
+      findSimilarInHistory(newImages).then(matches => {
+        if (matches.size === 0) return;
+        setImages(prev => prev.map(img => matches.has(img.id) ? { ...img, historyMatch: matches.get(img.id) } : img));
+      });
+    }
+  };
+  
+  // Drop queued near-duplicates, keeping one image of each group (a processed one if there is one)
+  const handleSkipDuplicates = () => {
+    const skippedIds = new Set<string>();
+    for (const cluster of findDuplicateClusters(images)) {
+      const kept = cluster.find(img => img.status === 'complete') || cluster[0];
+      cluster
+        .filter(img => img !== kept && img.status === 'pending')
+        .forEach(img => skippedIds.add(img.id));
+    }
+    
+    if (skippedIds.size === 0) {
+      toast.info('No queued duplicates to skip');
+      return;
+    }
+    setImages(prev => prev.filter(img => !skippedIds.has(img.id)));
+    toast.success(`Skipped ${skippedIds.size} near-duplicate${skippedIds.size !== 1 ? 's' : ''}`);
   };
   
   const handleRemoveImage = (id: string) => {
@@ -94,6 +237,109 @@ const Index: React.FC = () => {
     setImages([]);
   };
   
+  // Bring back the saved batch and resume images that were being processed when the page closed
+  const handleRestoreSession = async () => {
+    const session = savedSession;
+    setSavedSession(null);
+    if (!session) return;
+    
+    const { settings } = session;
+    if (settings) {
+      setPlatforms(settings.platforms);
+      setGenerationMode(settings.generationMode);
+      setMinTitleWords(settings.minTitleWords);
+      setMaxTitleWords(settings.maxTitleWords);
+      setMinKeywords(settings.minKeywords);
+      setMaxKeywords(settings.maxKeywords);
+      setMinDescriptionWords(settings.minDescriptionWords);
+      setMaxDescriptionWords(settings.maxDescriptionWords);
+      lastBatchOptionsRef.current = settings.batchOptions || null;
+    }
+    
+    const restored = await Promise.all(session.images.map(async img => ({
+      ...img,
+      previewUrl: await createImagePreview(img.file),
+      // Interrupted images go back in the queue
+      status: img.status === 'processing' ? 'pending' as const : img.status
+    })));
+    setImages(prev => [...restored, ...prev]);
+    setSessionReady(true);
+    toast.success(`Restored ${restored.length} image${restored.length !== 1 ? 's' : ''}`);
+    
+    // The interrupted batch was already paid for, so it resumes without using a credit
+    const interruptedIds = new Set(session.images.filter(img => img.status === 'processing').map(img => img.id));
+    const interrupted = restored.filter(img => interruptedIds.has(img.id));
+    if (interrupted.length === 0) return;
+    if (!settings?.batchOptions || !isProviderReady(providerSettings, apiKey)) {
+      toast.info(`${interrupted.length} interrupted image${interrupted.length !== 1 ? 's are' : ' is'} back in the queue`);
+      return;
+    }
+    await runBatch(interrupted, settings.batchOptions);
+  };
+  
+  const handleDiscardSession = () => {
+    setSavedSession(null);
+    setSessionReady(true);
+    clearSession().catch(error => console.warn('Could not clear the saved session:', error));
+  };
+  
+  const handleUpdateResult = (id: string, changes: Partial<ImageMetadata>, platform?: Platform) => {
+    setImages(prev => prev.map(img => {
+      if (img.id !== id) return img;
+      // An edit of the shared result is shaped for each platform the way its generated results were
+      const updated = updateImageResult(img, changes, platform, (key, current) =>
+        applySharedEdit(getPlatformDefinition(key), current, img.result, changes, keywordPipeline));
+      return recordVersion(updated, 'edited');
+    }));
+  };
+  
+  const handleRemoveRestrictedTerm = (id: string, violation: PlatformTermViolation) => {
+    setImages(prev => prev.map(img => img.id === id ? recordVersion(removePlatformViolation(img, violation), 'edited') : img));
+  };
+  
+  const handleUndo = (id: string) => {
+    setImages(prev => prev.map(img => img.id === id ? undo(img) : img));
+  };
+  
+  const handleRedo = (id: string) => {
+    setImages(prev => prev.map(img => img.id === id ? redo(img) : img));
+  };
+  
+  const handleRestoreVersion = (id: string, index: number) => {
+    setImages(prev => prev.map(img => img.id === id ? restoreVersion(img, index) : img));
+  };
+  
+  // Fill in results from an exported CSV, matching rows to uploaded files by name
+  const handleImportResults = ({ platform, rows }: CsvImportResult) => {
+    const matched = images.filter(img => rows.has(img.file.name.toLowerCase()));
+    if (matched.length === 0) {
+      toast.error(`None of the ${rows.size} rows match an uploaded file. Upload the images first, then import the CSV.`);
+      return;
+    }
+    
+    setImages(prev => prev.map(img => {
+      const metadata = rows.get(img.file.name.toLowerCase());
+      if (!metadata) return img;
+      
+      const platformResults = { ...img.platformResults, [platform]: metadata };
+      // The shared result only follows the import when no other platform has results
+      const hasOtherPlatforms = Object.keys(platformResults).some(key => key !== platform);
+      return recordVersion({
+        ...img,
+        status: 'complete' as const,
+        result: hasOtherPlatforms && img.result ? img.result : metadata,
+        platformResults,
+        error: undefined
+      }, 'imported');
+    }));
+    
+    setPlatforms(prev => prev.includes(platform) ? prev : [...prev, platform]);
+    setGenerationMode('metadata');
+    
+    const unmatched = rows.size - matched.length;
+    toast.success(`Imported ${platform} metadata for ${matched.length} image${matched.length !== 1 ? 's' : ''}${unmatched > 0 ? `; ${unmatched} row${unmatched !== 1 ? 's' : ''} had no matching file` : ''}`);
+  };
+  
   const handleTitleLengthChange = (value: number[]) => {
     setTitleLength(value[0]);
   };
@@ -138,108 +384,540 @@ const Index: React.FC = () => {
     setMaxDescriptionWords(value[0]);
   };
   
+  const handleRateLimitsChange = (settings: RateLimitSettings) => {
+    setRateLimits(settings);
+    localStorage.setItem('rate-limit-settings', JSON.stringify(settings));
+  };
+  
+  const handleCsvSettingsChange = (settings: CsvExportSettings) => {
+    setCsvSettings(settings);
+    localStorage.setItem('csv-export-settings', JSON.stringify(settings));
+  };
+  
+  const handleKeywordPipelineChange = (settings: KeywordPipelineSettings) => {
+    setKeywordPipeline(settings);
+    localStorage.setItem('keyword-pipeline-settings', JSON.stringify(settings));
+  };
+  
+  const handleRestrictedTermSettingsChange = (settings: RestrictedTermSettings) => {
+    setRestrictedTermSettings(settings);
+    localStorage.setItem('restricted-term-settings', JSON.stringify(settings));
+  };
+  
+  const handleExistingMetadataModeChange = (mode: ExistingMetadataMode) => {
+    setExistingMetadataMode(mode);
+    localStorage.setItem('existing-metadata-mode', mode);
+  };
+  
+  const handleDuplicateModeChange = (mode: DuplicateMode) => {
+    setDuplicateMode(mode);
+    localStorage.setItem('duplicate-mode', mode);
+  };
+  
   const handleUpgradePlan = () => {
     navigate('/pricing');
   };
   
-  const handleProcessImages = async () => {
-    if (!apiKey) {
-      toast.error('Please enter your Gemini API key first');
-      return;
+  // Provider for the selected model that moves to a working model when it is unavailable
+  const createSessionProvider = () => createProvider(providerSettings, apiKey, {
+    requirements: { vision: true },
+    onFallback: (fromModel, toModel) => {
+      toast.warning(`${fromModel} is unavailable, switched to ${toModel}`);
+      // Remember the working model so the next batch starts with it
+      setProviderSettings(prev => {
+        if (prev.id !== providerSettings.id) return prev;
+        const next = { ...prev, model: toModel };
+        saveProviderSettings(next);
+        return next;
+      });
     }
+  });
+  
+  // Platforms, mode and limits an analysis runs with, falling back to the current settings
+  const getGenerationSettings = (options: AnalysisOptions): CacheSettings => ({
+    platforms: options.platforms || platforms,
+    mode: options.generationMode || generationMode,
+    limits: {
+      minTitleWords: options.minTitleWords,
+      maxTitleWords: options.maxTitleWords,
+      minKeywords: options.minKeywords,
+      maxKeywords: options.maxKeywords,
+      minDescriptionWords: options.minDescriptionWords,
+      maxDescriptionWords: options.maxDescriptionWords
+    }
+  });
+  
+  // Results and generation info for an image from a completed analysis
+  const buildCompletedImage = (
+    img: ProcessedImage,
+    result: AnalysisResult,
+    options: AnalysisOptions,
+    model: string,
+    source: VersionSource = 'generated'
+  ): ProcessedImage => recordVersion({
+    ...img,
+    status: 'complete',
+    result: {
+      title: result.title,
+      description: result.description,
+      keywords: result.keywords,
+      prompt: result.prompt,
+      baseModel: result.baseModel,
+      categories: result.categories
+    },
+    platformResults: result.platformResults,
+    generation: {
+      processedAt: new Date().toISOString(),
+      model,
+      ...getGenerationSettings(options)
+    },
+    cached: undefined,
+    error: undefined
+  }, source);
+  
+  const applyCachedResult = (img: ProcessedImage, cached: CachedResult): ProcessedImage => recordVersion({
+    ...img,
+    status: 'complete',
+    result: cached.result,
+    platformResults: cached.platformResults,
+    generation: cached.generation,
+    cached: true,
+    error: undefined
+  }, 'cached');
+  
+  // Hash the images and complete those already processed with the same settings, from the
+  // local cache or the user's server history; returns the images that still need generating
+  const applyCachedResults = async (pending: ProcessedImage[], options: AnalysisOptions): Promise<ProcessedImage[]> => {
+    const settings = getGenerationSettings(options);
+    const hashes = new Map<string, string>();
+    const hits = new Map<string, CachedResult>();
     
-    const pendingImages = images.filter(img => img.status === 'pending');
+    for (const img of pending) {
+      try {
+        const contentHash = img.contentHash || await hashFile(img.file);
+        hashes.set(img.id, contentHash);
+        
+        const key = await getResultCacheKey(contentHash, settings);
+        let cached = await getCachedResult(key);
+        if (!cached && user) {
+          cached = await findHistoryResult(key, settings);
+          if (cached) putCachedResult(cached);
+        }
+        if (cached) hits.set(img.id, cached);
+      } catch (error) {
+        console.warn(`Error checking the cache for ${img.file.name}:`, error);
+      }
+    }
     
-    if (pendingImages.length === 0) {
-      toast.info('No images to process');
-      return;
+    setImages(prev => prev.map(img => {
+      if (!hashes.has(img.id)) return img;
+      const hashed = { ...img, contentHash: hashes.get(img.id) };
+      return hits.has(img.id) ? applyCachedResult(hashed, hits.get(img.id)) : hashed;
+    }));
+    if (hits.size > 0) {
+      toast.info(`Reused cached results for ${hits.size} file${hits.size !== 1 ? 's' : ''}`);
     }
     
-    if (!canGenerateMetadata) {
-      toast.error('You have reached your free limit. Please upgrade to premium.');
-      return;
+    return pending
+      .filter(img => !hits.has(img.id))
+      .map(img => ({ ...img, contentHash: hashes.get(img.id) }));
+  };
+  
+  // When sharing, complete pending images whose near-duplicate group already has a result made
+  // with the same settings by copying it; returns the images that still need generating
+  const applySharedResults = (pending: ProcessedImage[], options: AnalysisOptions): ProcessedImage[] => {
+    const pendingIds = new Set(pending.map(img => img.id));
+    const settingsKey = JSON.stringify(getGenerationSettings(options));
+    const sameSettings = (img: ProcessedImage) => img.status === 'complete' && img.generation && JSON.stringify({
+      platforms: img.generation.platforms,
+      mode: img.generation.mode,
+      limits: img.generation.limits
+    }) === settingsKey;
+    
+    const copied = new Map<string, ProcessedImage>();
+    for (const cluster of findDuplicateClusters([...pending, ...images.filter(img => !pendingIds.has(img.id) && img.status === 'complete')])) {
+      const source = cluster.find(img => !pendingIds.has(img.id) && sameSettings(img));
+      if (!source) continue;
+      for (const img of cluster.filter(member => pendingIds.has(member.id))) {
+        copied.set(img.id, recordVersion({
+          ...img,
+          status: 'complete',
+          result: source.result,
+          platformResults: source.platformResults,
+          generation: source.generation,
+          cached: undefined,
+          error: undefined
+        }, 'generated'));
+      }
     }
+    if (copied.size === 0) return pending;
     
-    const canProceed = await incrementCreditsUsed();
+    setImages(prev => prev.map(img => copied.get(img.id) || img));
+    for (const img of copied.values()) {
+      cacheImageResult(img);
+      if (user) {
+        saveGenerationHistory(user.id, img, img.generation.platforms, img.generation.model);
+      }
+    }
+    toast.info(`Shared existing results with ${copied.size} near-duplicate${copied.size !== 1 ? 's' : ''}`);
+    return pending.filter(img => !copied.has(img.id));
+  };
+  
+  // Run a batch of images through the queue, updating each image as it completes
+  const runBatch = async (unhashed: ProcessedImage[], batchOptions: AnalysisOptions, duplicates: DuplicateMode = 'separate') => {
+    // Retried and resumed images may not be hashed yet; without a hash their results aren't cached
+    const batch = await Promise.all(unhashed.map(async img => {
+      if (img.contentHash) return img;
+      try {
+        return { ...img, contentHash: await hashFile(img.file) };
+      } catch (error) {
+        console.warn(`Error hashing ${img.file.name}:`, error);
+        return img;
+      }
+    }));
+    const hashes = new Map(batch.map(img => [img.id, img.contentHash]));
     
-    if (!canProceed) {
-      return;
+    const control = createQueueControl();
+    queueControlRef.current = control;
+    lastBatchOptionsRef.current = batchOptions;
+    const batchIds = new Set(batch.map(img => img.id));
+    
+    // Near-duplicate groups among the batch and already processed images. When sharing, the
+    // first queued image of a group is generated for all of them; when varying, each one is
+    // told the titles the rest of its group already has
+    const clusters = duplicates === 'separate' ? [] : findDuplicateClusters([
+      ...batch,
+      ...images.filter(img => !batchIds.has(img.id) && img.status === 'complete')
+    ]);
+    const followers = new Map<string, ProcessedImage[]>();
+    const clusterOf = new Map<string, ProcessedImage[]>();
+    const clusterTitles = new Map<string, string>();
+    for (const cluster of clusters) {
+      const [leader, ...rest] = cluster.filter(img => batchIds.has(img.id));
+      if (duplicates === 'share' && rest.length > 0) {
+        followers.set(leader.id, rest);
+      }
+      cluster.forEach(img => {
+        clusterOf.set(img.id, cluster);
+        if (img.result) clusterTitles.set(img.id, img.result.title);
+      });
     }
+    const followerIds = new Set(Array.from(followers.values()).flat().map(img => img.id));
+    const queued = batch.filter(img => !followerIds.has(img.id));
     
     setIsProcessing(true);
+    setIsPaused(false);
     
     try {
-      setImages(prev => prev.map(img => img.status === 'pending' ? {
+      setImages(prev => prev.map(img => batchIds.has(img.id) ? {
         ...img,
-        status: 'processing' as const
+        contentHash: hashes.get(img.id),
+        status: 'processing' as const,
+        error: undefined
       } : img));
       
-      for (const image of pendingImages) {
-        try {
-          if (pendingImages.indexOf(image) > 0) {
-            // Add a 2-second delay between processing images to respect the 15 RPM limit
-            await new Promise(resolve => setTimeout(resolve, 2000));
+      const rateLimiter = createRateLimiter(rateLimits);
+      const provider = createSessionProvider();
+      
+      await processQueue(queued, async (image, signal) => {
+        const cluster = duplicates === 'vary' ? clusterOf.get(image.id) : undefined;
+        const result = await analyzeImageWithGemini(image.file, apiKey, {
+          ...batchOptions,
+          existingMetadata: image.embeddedMetadata,
+          nearDuplicates: cluster && {
+            count: cluster.length,
+            titles: cluster.filter(img => img !== image && clusterTitles.has(img.id)).map(img => clusterTitles.get(img.id))
+          },
+          rateLimiter,
+          signal,
+          provider
+        });
+        
+        const members = [image, ...(followers.get(image.id) || [])];
+        const memberIds = new Set(members.map(img => img.id));
+        setImages(prev => prev.map(img => {
+          if (!memberIds.has(img.id)) return img;
+          if (result.error) {
+            return { ...img, status: 'error' as const, result: undefined, platformResults: undefined, generation: undefined, error: result.error };
           }
-          
-          const options = {
-            titleLength,
-            descriptionLength,
-            keywordCount,
-            platforms,
-            generationMode,
-            minTitleWords,
-            maxTitleWords,
-            minKeywords,
-            maxKeywords,
-            minDescriptionWords,
-            maxDescriptionWords
-          };
-          
-          const result = await analyzeImageWithGemini(image.file, apiKey, options);
-          
-          // Check if we're in Freepik-only mode
-          const isFreepikOnly = platforms.length === 1 && platforms[0] === 'Freepik';
-          const isShutterstock = platforms.length === 1 && platforms[0] === 'Shutterstock';
-          
-          setImages(prev => prev.map(img => img.id === image.id ? {
-            ...img,
-            status: result.error ? 'error' as const : 'complete' as const,
-            result: result.error ? undefined : {
-              title: result.title,
-              description: result.description,
-              keywords: result.keywords,
-              // Include prompt and baseModel for Freepik
-              ...(isFreepikOnly && {
-                prompt: result.prompt,
-                baseModel: result.baseModel
-              }),
-              // Include categories for Shutterstock
-              ...(isShutterstock && {
-                categories: result.categories
-              })
-            },
-            error: result.error
-          } : img));
-        } catch (error) {
+          return buildCompletedImage(img, result, batchOptions, provider.model);
+        }));
+        
+        if (!result.error) {
+          clusterTitles.set(image.id, result.title);
+          for (const member of members) {
+            const completed = buildCompletedImage(member, result, batchOptions, provider.model);
+            cacheImageResult(completed);
+            if (user) {
+              saveGenerationHistory(user.id, completed, completed.generation.platforms, provider.model);
+            }
+          }
+        }
+      }, {
+        concurrency: rateLimits.concurrency,
+        limiter: rateLimiter,
+        control,
+        onRetry: (attempt, delayMs) => {
+          console.warn(`Rate limited, retrying in ${Math.round(delayMs / 1000)}s (attempt ${attempt})`);
+        },
+        onError: (image, error) => {
           console.error(`Error processing image ${image.file.name}:`, error);
-          setImages(prev => prev.map(img => img.id === image.id ? {
+          const memberIds = new Set([image, ...(followers.get(image.id) || [])].map(img => img.id));
+          setImages(prev => prev.map(img => memberIds.has(img.id) ? {
             ...img,
             status: 'error' as const,
             error: error instanceof Error ? error.message : 'Unknown error occurred'
           } : img));
         }
-      }
+      });
       
-      toast.success('All images processed successfully');
+      if (control.isCancelled) {
+        // Unfinished images go back to the queue so they can be processed later
+        setImages(prev => prev.map(img => batchIds.has(img.id) && img.status === 'processing' ? {
+          ...img,
+          status: 'pending' as const
+        } : img));
+        toast.info('Processing cancelled');
+      } else {
+        toast.success('All images processed successfully');
+      }
     } catch (error) {
       console.error('Error during image processing:', error);
       toast.error('An error occurred during processing');
     } finally {
+      queueControlRef.current = null;
       setIsProcessing(false);
+      setIsPaused(false);
+    }
+  };
+  
+  const handleProcessImages = async () => {
+    if (!isProviderReady(providerSettings, apiKey)) {
+      toast.error(providerSettings.id === 'gemini'
+        ? 'Please enter your Gemini API key first'
+        : 'Please enter the model provider URL and model first');
+      return;
+    }
+    
+    const pendingImages = images.filter(img => img.status === 'pending');
+    
+    if (pendingImages.length === 0) {
+      toast.info('No images to process');
+      return;
+    }
+    
+    const options: AnalysisOptions = {
+      titleLength,
+      descriptionLength,
+      keywordCount,
+      platforms,
+      generationMode,
+      minTitleWords,
+      maxTitleWords,
+      minKeywords,
+      maxKeywords,
+      minDescriptionWords,
+      maxDescriptionWords,
+      existingMetadataMode,
+      keywordPipeline
+    };
+    
+    // Cached and shared results don't use a credit; a batch of only those needs none
+    const uncachedImages = await applyCachedResults(pendingImages, options);
+    const ungeneratedImages = duplicateMode === 'share' ? applySharedResults(uncachedImages, options) : uncachedImages;
+    if (ungeneratedImages.length === 0) {
+      return;
+    }
+    
+    if (!canGenerateMetadata) {
+      toast.error('You have reached your free limit. Please upgrade to premium.');
+      return;
+    }
+    
+    const canProceed = await incrementCreditsUsed();
+    
+    if (!canProceed) {
+      return;
+    }
+    
+    await runBatch(ungeneratedImages, options, duplicateMode);
+  };
+  
+  // Failed images were already paid for by their batch, so retrying doesn't use a credit
+  const handleRetryFailed = async () => {
+    if (!isProviderReady(providerSettings, apiKey)) {
+      toast.error(providerSettings.id === 'gemini'
+        ? 'Please enter your Gemini API key first'
+        : 'Please enter the model provider URL and model first');
+      return;
+    }
+    
+    const failedImages = images.filter(img => img.status === 'error');
+    
+    if (failedImages.length === 0) {
+      toast.info('No failed images to retry');
+      return;
+    }
+    
+    const options: AnalysisOptions = lastBatchOptionsRef.current || {
+      platforms,
+      generationMode,
+      minTitleWords,
+      maxTitleWords,
+      minKeywords,
+      maxKeywords,
+      minDescriptionWords,
+      maxDescriptionWords,
+      existingMetadataMode,
+      keywordPipeline
+    };
+    const ungeneratedImages = duplicateMode === 'share' ? applySharedResults(failedImages, options) : failedImages;
+    if (ungeneratedImages.length === 0) {
+      return;
+    }
+    
+    await runBatch(ungeneratedImages, options, duplicateMode);
+  };
+  
+  // Regenerate some fields of one image for free, or all of it for a credit
+  const handleRegenerate = async (id: string, fields: RegenerableField[] | undefined, hint: string) => {
+    if (!isProviderReady(providerSettings, apiKey)) {
+      toast.error(providerSettings.id === 'gemini'
+        ? 'Please enter your Gemini API key first'
+        : 'Please enter the model provider URL and model first');
+      return;
+    }
+    
+    const image = images.find(img => img.id === id);
+    if (!image) return;
+    
+    // A whole image is a full generation, so it is paid for like a batch
+    if (!fields) {
+      if (!canGenerateMetadata) {
+        toast.error('You have reached your free limit. Please upgrade to premium.');
+        return;
+      }
+      const canProceed = await incrementCreditsUsed();
+      if (!canProceed) {
+        return;
+      }
+    }
+    
+    const provider = createSessionProvider();
+    const options: AnalysisOptions = {
+      // Fields are regenerated for the platforms the image was processed for
+      platforms: fields ? image.generation?.platforms || platforms : platforms,
+      generationMode: 'metadata',
+      minTitleWords,
+      maxTitleWords,
+      minKeywords,
+      maxKeywords,
+      minDescriptionWords,
+      maxDescriptionWords,
+      existingMetadataMode,
+      existingMetadata: image.embeddedMetadata,
+      keywordPipeline,
+      fields,
+      previous: image.result,
+      hint
+    };
+    
+    try {
+      const result = await analyzeImageWithGemini(image.file, apiKey, {
+        ...options,
+        rateLimiter: createRateLimiter(rateLimits),
+        provider
+      });
+      if (result.error) {
+        toast.error(`Failed to regenerate: ${result.error}`);
+        return;
+      }
+      
+      if (fields) {
+        // The regenerated fields of a result, already shaped for its platform when one is given
+        const pickFields = (metadata: ImageMetadata, platform?: Platform): Partial<ImageMetadata> => {
+          const changes = Object.fromEntries(fields.map(field => [field, metadata[field]])) as Partial<ImageMetadata>;
+          // Pinned keywords survive regeneration at the front of the new list
+          if (changes.keywords && image.result?.pinnedKeywords?.length) {
+            const pinned = new Set(image.result.pinnedKeywords);
+            const maxItems = platform ? getPlatformDefinition(platform).limits?.keywords?.maxItems : undefined;
+            changes.keywords = [...image.result.pinnedKeywords, ...changes.keywords.filter(keyword => !pinned.has(keyword))].slice(0, maxItems);
+          }
+          return changes;
+        };
+        setImages(prev => prev.map(img => {
+          if (img.id !== id) return img;
+          // Each platform keeps its own limits, keyword cleanup and categories
+          let updated: ProcessedImage = { ...img, result: { ...img.result, ...pickFields(result) } };
+          for (const [platform, metadata] of Object.entries(result.platformResults || {})) {
+            updated = updateImageResult(updated, pickFields(metadata, platform), platform);
+          }
+          return recordVersion(updated, 'regenerated');
+        }));
+        toast.success(`Regenerated ${fields.join(', ')}`);
+      } else {
+        const completed = buildCompletedImage(image, result, options, provider.model, 'regenerated');
+        setImages(prev => prev.map(img => img.id === id ? buildCompletedImage(img, result, options, provider.model, 'regenerated') : img));
+        cacheImageResult(completed);
+        if (user) {
+          saveGenerationHistory(user.id, completed, completed.generation.platforms, provider.model);
+        }
+        toast.success(`Regenerated metadata for ${image.file.name}`);
+      }
+    } catch (error) {
+      console.error(`Error regenerating ${image.file.name}:`, error);
+      toast.error(error instanceof Error ? error.message : 'Failed to regenerate');
     }
   };
   
+  // Ask the model for brand names the built-in list misses; a text-only request, so no credit is used
+  const handleCheckRestrictedTerms = async (id: string) => {
+    if (!isProviderReady(providerSettings, apiKey)) {
+      toast.error(providerSettings.id === 'gemini'
+        ? 'Please enter your Gemini API key first'
+        : 'Please enter the model provider URL and model first');
+      return;
+    }
+    
+    const image = images.find(img => img.id === id);
+    if (!image?.result) return;
+    
+    try {
+      const detectedTerms = await detectRestrictedTerms(image.result, apiKey, {
+        rateLimiter: createRateLimiter(rateLimits),
+        provider: createSessionProvider()
+      });
+      setImages(prev => prev.map(img => img.id === id ? { ...img, detectedTerms } : img));
+      if (detectedTerms.length > 0) {
+        toast.warning(`Found ${detectedTerms.length} restricted term${detectedTerms.length === 1 ? '' : 's'} in ${image.file.name}`);
+      } else {
+        toast.success(`No brand or artist names found in ${image.file.name}`);
+      }
+    } catch (error) {
+      console.error(`Error checking ${image.file.name} for restricted terms:`, error);
+      toast.error(error instanceof Error ? error.message : 'Failed to check for restricted terms');
+    }
+  };
+  
+  const handlePauseResume = () => {
+    const control = queueControlRef.current;
+    if (!control) return;
+    
+    if (control.isPaused) {
+      control.resume();
+      setIsPaused(false);
+    } else {
+      control.pause();
+      setIsPaused(true);
+    }
+  };
+  
+  const handleCancelProcessing = () => {
+    queueControlRef.current?.cancel();
+  };
+  
   const pendingCount = images.filter(img => img.status === 'pending').length;
+  const failedCount = images.filter(img => img.status === 'error').length;
   const remainingCredits = profile?.is_premium ? '∞' : Math.max(0, 10 - (profile?.credits_used || 0));
   
   return (
@@ -248,6 +926,8 @@ const Index: React.FC = () => {
         remainingCredits={remainingCredits}
         apiKey={apiKey}
         onApiKeyChange={handleApiKeyChange}
+        providerSettings={providerSettings}
+        onProviderSettingsChange={handleProviderSettingsChange}
       />
       
       <div className="flex flex-1">
@@ -268,6 +948,18 @@ const Index: React.FC = () => {
           onMaxDescriptionWordsChange={handleMaxDescriptionWordsChange} 
           selectedPlatforms={platforms} 
           onPlatformChange={handlePlatformChange} 
+          rateLimits={rateLimits}
+          onRateLimitsChange={handleRateLimitsChange}
+          providerSettings={providerSettings}
+          onProviderSettingsChange={handleProviderSettingsChange}
+          csvSettings={csvSettings}
+          onCsvSettingsChange={handleCsvSettingsChange}
+          existingMetadataMode={existingMetadataMode}
+          onExistingMetadataModeChange={handleExistingMetadataModeChange}
+          keywordPipeline={keywordPipeline}
+          onKeywordPipelineChange={handleKeywordPipelineChange}
+          restrictedTermSettings={restrictedTermSettings}
+          onRestrictedTermSettingsChange={handleRestrictedTermSettingsChange}
         />
         
         <main className="flex-1 p-6 overflow-auto">
@@ -299,7 +991,7 @@ const Index: React.FC = () => {
                 <div className="flex justify-center mt-8">
                   <Button
                     onClick={handleProcessImages}
-                    disabled={isProcessing || !apiKey}
+                    disabled={isProcessing || !isProviderReady(providerSettings, apiKey)}
                     className="glow-button bg-blue-600 hover:bg-blue-700 text-white px-8 py-3 text-lg rounded-md shadow-lg transition-all duration-300 border-none"
                   >
                     {isProcessing ? (
@@ -317,6 +1009,50 @@ const Index: React.FC = () => {
                 </div>
               )}
               
+              {isProcessing && (
+                <div className="flex justify-center gap-3 mt-4">
+                  <Button
+                    variant="outline"
+                    onClick={handlePauseResume}
+                    className="flex items-center gap-1"
+                  >
+                    {isPaused ? (
+                      <>
+                        <Play className="h-4 w-4" />
+                        <span>Resume</span>
+                      </>
+                    ) : (
+                      <>
+                        <Pause className="h-4 w-4" />
+                        <span>Pause</span>
+                      </>
+                    )}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={handleCancelProcessing}
+                    className="flex items-center gap-1 text-red-400 border-red-800 hover:bg-red-900/30"
+                  >
+                    <Square className="h-4 w-4" />
+                    <span>Cancel</span>
+                  </Button>
+                </div>
+              )}
+              
+              {!isProcessing && failedCount > 0 && (
+                <div className="flex justify-center mt-4">
+                  <Button
+                    variant="outline"
+                    onClick={handleRetryFailed}
+                    disabled={!isProviderReady(providerSettings, apiKey)}
+                    className="flex items-center gap-1"
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                    <span>Retry {failedCount} Failed Image{failedCount !== 1 ? 's' : ''}</span>
+                  </Button>
+                </div>
+              )}
+              
               {!canGenerateMetadata && (
                 <div className="bg-amber-900/30 border border-amber-800/50 rounded-lg p-4 flex flex-col items-center mt-4">
                   <div className="flex items-center mb-2">
@@ -341,12 +1077,48 @@ const Index: React.FC = () => {
                   onClearAll={handleClearAll}
                   generationMode={generationMode}
                   selectedPlatforms={platforms}
+                  csvSettings={csvSettings}
+                  onImportResults={handleImportResults}
+                  onUpdateResult={handleUpdateResult}
+                  onRegenerate={handleRegenerate}
+                  onUndo={handleUndo}
+                  onRedo={handleRedo}
+                  onRestoreVersion={handleRestoreVersion}
+                  duplicateMode={duplicateMode}
+                  onDuplicateModeChange={handleDuplicateModeChange}
+                  onSkipDuplicates={handleSkipDuplicates}
+                  restrictedTermSettings={restrictedTermSettings}
+                  onCheckRestrictedTerms={handleCheckRestrictedTerms}
+                  onRemoveRestrictedTerm={handleRemoveRestrictedTerm}
+                  limits={{
+                    minTitleWords,
+                    maxTitleWords,
+                    minKeywords,
+                    maxKeywords,
+                    minDescriptionWords,
+                    maxDescriptionWords
+                  }}
                 />
               </div>
             </div>
           </div>
         </main>
       </div>
+      
+      <AlertDialog open={savedSession !== null}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore previous session?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {savedSession && `${savedSession.images.length} image${savedSession.images.length !== 1 ? 's' : ''} from ${new Date(savedSession.savedAt).toLocaleString()} were saved, including ${savedSession.images.filter(img => img.status === 'complete').length} with results.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={handleDiscardSession}>Discard</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRestoreSession}>Restore</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
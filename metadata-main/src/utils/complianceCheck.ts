@@ -0,0 +1,221 @@
+import { countWords, getPlatformResult, ProcessedImage, removeSymbolsFromTitle } from './imageHelpers';
+import { serializeCsv } from './csv';
+import { getPlatformDefinition, MetadataField, Platform, PlatformDefinition } from './platformDefinitions';
+
+/**
+ * Checks results against each platform's rules before upload
+ *
+ * Rules come from the platform definitions: required fields, character and word
+ * limits, keyword counts, forbidden characters and the category list. Titles
+ * repeated within the batch are flagged too. A failure means the site will
+ * reject or mangle the file; a warning means it will likely be accepted as is.
+ */
+
+export type ComplianceStatus = 'pass' | 'warn' | 'fail';
+
+export interface ComplianceIssue {
+  platform: Platform;
+  field: MetadataField;
+  status: Exclude<ComplianceStatus, 'pass'>;
+  message: string;
+}
+
+export interface ImageCompliance {
+  image: ProcessedImage;
+  status: ComplianceStatus;
+  issues: ComplianceIssue[];
+}
+
+// Line breaks and other control characters split or break CSV rows on most upload forms
+const CONTROL_CHARACTERS = /\p{Cc}/u;
+
+// The text a platform receives for a field, as the CSV exporter writes it
+function getExportedText(definition: PlatformDefinition, image: ProcessedImage, field: 'title' | 'description' | 'prompt'): string {
+  const value = getPlatformResult(image, definition.id)?.[field] || '';
+  return field === 'title' ? removeSymbolsFromTitle(value) : value;
+}
+
+function findForbiddenCharacters(text: string, forbidden: string): string[] {
+  return Array.from(new Set(Array.from(text).filter(char => forbidden.includes(char))));
+}
+
+function checkText(
+  definition: PlatformDefinition,
+  image: ProcessedImage,
+  field: 'title' | 'description' | 'prompt',
+  issue: (field: MetadataField, status: ComplianceIssue['status'], message: string) => void
+): void {
+  const text = getExportedText(definition, image, field).trim();
+  const limits = definition.limits?.[field] || {};
+
+  if (!text) {
+    // Prompts are optional on the sites that take them
+    issue(field, field === 'prompt' ? 'warn' : 'fail', `${field} is empty`);
+    return;
+  }
+  if (limits.maxLength && text.length > limits.maxLength) {
+    issue(field, 'fail', `${field} is ${text.length} characters, the limit is ${limits.maxLength}`);
+  }
+  const words = countWords(text);
+  if (limits.minWords && words < limits.minWords) {
+    issue(field, 'warn', `${field} has ${words} words, at least ${limits.minWords} expected`);
+  }
+  if (limits.maxWords && words > limits.maxWords) {
+    issue(field, 'warn', `${field} has ${words} words, at most ${limits.maxWords} expected`);
+  }
+  if (CONTROL_CHARACTERS.test(text)) {
+    issue(field, 'fail', `${field} contains a line break or control character`);
+  }
+  const forbidden = findForbiddenCharacters(text, definition.forbiddenCharacters || '');
+  if (forbidden.length > 0) {
+    issue(field, 'fail', `${field} contains ${forbidden.map(char => `"${char}"`).join(', ')}`);
+  }
+}
+
+function checkKeywords(
+  definition: PlatformDefinition,
+  image: ProcessedImage,
+  issue: (field: MetadataField, status: ComplianceIssue['status'], message: string) => void
+): void {
+  const keywords = (getPlatformResult(image, definition.id)?.keywords || []).map(keyword => keyword.trim()).filter(Boolean);
+  const limits = definition.limits?.keywords || {};
+
+  if (keywords.length === 0) {
+    issue('keywords', 'fail', 'no keywords');
+    return;
+  }
+  if (limits.minItems && keywords.length < limits.minItems) {
+    issue('keywords', 'fail', `${keywords.length} keywords, at least ${limits.minItems} required`);
+  }
+  if (limits.maxItems && keywords.length > limits.maxItems) {
+    // The exporter cuts the list, so the file uploads without the extra keywords
+    issue('keywords', 'warn', `${keywords.length} keywords, only the first ${limits.maxItems} are exported`);
+  }
+
+  const seen = new Set<string>();
+  const repeated = keywords.filter(keyword => {
+    const key = keyword.toLowerCase();
+    if (seen.has(key)) return true;
+    seen.add(key);
+    return false;
+  });
+  if (repeated.length > 0) {
+    issue('keywords', 'warn', `repeated keywords: ${repeated.join(', ')}`);
+  }
+
+  // A keyword holding the separator is read as two keywords
+  const separator = definition.csv.keywordSeparator.trim();
+  const split = separator ? keywords.filter(keyword => keyword.includes(separator)) : [];
+  if (split.length > 0) {
+    issue('keywords', 'fail', `keywords containing "${separator}": ${split.join(' | ')}`);
+  }
+  if (keywords.some(keyword => CONTROL_CHARACTERS.test(keyword))) {
+    issue('keywords', 'fail', 'a keyword contains a line break or control character');
+  }
+  const forbidden = findForbiddenCharacters(keywords.join(''), definition.forbiddenCharacters || '');
+  if (forbidden.length > 0) {
+    issue('keywords', 'fail', `keywords contain ${forbidden.map(char => `"${char}"`).join(', ')}`);
+  }
+}
+
+function checkCategories(
+  definition: PlatformDefinition,
+  image: ProcessedImage,
+  issue: (field: MetadataField, status: ComplianceIssue['status'], message: string) => void
+): void {
+  if (!definition.categories) return;
+  const categories = getPlatformResult(image, definition.id)?.categories || [];
+
+  if (categories.length === 0) {
+    issue('categories', 'fail', 'no category chosen');
+    return;
+  }
+  if (categories.length > definition.categories.maxItems) {
+    issue('categories', 'fail', `${categories.length} categories, at most ${definition.categories.maxItems} allowed`);
+  }
+  const unknown = categories.filter(category => !definition.categories.list.includes(category));
+  if (unknown.length > 0) {
+    issue('categories', 'fail', `not in the category list: ${unknown.join(', ')}`);
+  }
+}
+
+/**
+ * Checks one image's results against one platform's rules
+ */
+export function checkPlatformCompliance(image: ProcessedImage, definition: PlatformDefinition): ComplianceIssue[] {
+  const issues: ComplianceIssue[] = [];
+  const issue = (field: MetadataField, status: ComplianceIssue['status'], message: string) => {
+    issues.push({ platform: definition.id, field, status, message });
+  };
+
+  for (const field of ['title', 'description', 'prompt'] as const) {
+    if (definition.fields.includes(field)) {
+      checkText(definition, image, field, issue);
+    }
+  }
+  if (definition.fields.includes('keywords')) {
+    checkKeywords(definition, image, issue);
+  }
+  if (definition.fields.includes('categories')) {
+    checkCategories(definition, image, issue);
+  }
+  return issues;
+}
+
+/**
+ * Checks every completed image in a batch for each platform it will be exported to
+ * @param images - The batch; images that aren't complete are skipped
+ * @param platforms - The platforms the CSVs are written for
+ */
+export function checkBatchCompliance(images: ProcessedImage[], platforms: Platform[]): ImageCompliance[] {
+  const completed = images.filter(img => img.status === 'complete' && img.result);
+  const results = new Map<string, ComplianceIssue[]>(completed.map(img => [img.id, []]));
+
+  for (const platform of platforms) {
+    const definition = getPlatformDefinition(platform);
+    for (const image of completed) {
+      results.get(image.id).push(...checkPlatformCompliance(image, definition));
+    }
+
+    // Sites treat files with the same title as duplicates; descriptions stand in where there is no title
+    const field = definition.fields.includes('title') ? 'title' : definition.fields.includes('description') ? 'description' : null;
+    if (!field) continue;
+    const byText = new Map<string, ProcessedImage[]>();
+    for (const image of completed) {
+      const key = getExportedText(definition, image, field).trim().toLowerCase();
+      if (key) byText.set(key, [...(byText.get(key) || []), image]);
+    }
+    for (const group of byText.values()) {
+      if (group.length < 2) continue;
+      for (const image of group) {
+        const others = group.filter(other => other !== image).map(other => other.file.name);
+        results.get(image.id).push({ platform, field, status: 'warn', message: `same ${field} as ${others.join(', ')}` });
+      }
+    }
+  }
+
+  return completed.map(image => {
+    const issues = results.get(image.id);
+    const status: ComplianceStatus = issues.some(issue => issue.status === 'fail') ? 'fail' : issues.length > 0 ? 'warn' : 'pass';
+    return { image, status, issues };
+  });
+}
+
+// Number of images with each status
+export function summarizeCompliance(results: ImageCompliance[]): Record<ComplianceStatus, number> {
+  const summary: Record<ComplianceStatus, number> = { pass: 0, warn: 0, fail: 0 };
+  for (const result of results) {
+    summary[result.status]++;
+  }
+  return summary;
+}
+
+/**
+ * Formats a batch check as CSV, one row per issue and one for each image that passed
+ */
+export function formatComplianceReport(results: ImageCompliance[]): string {
+  const rows = results.flatMap(({ image, status, issues }) => issues.length === 0
+    ? [[image.file.name, status, '', '', '', '']]
+    : issues.map(issue => [image.file.name, status, issue.platform, issue.field, issue.status, issue.message]));
+  return serializeCsv([['Filename', 'Status', 'Platform', 'Field', 'Severity', 'Issue'], ...rows]);
+}
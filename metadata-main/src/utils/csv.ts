@@ -0,0 +1,124 @@
+/**
+ * RFC 4180 CSV serialization and parsing
+ */
+
+export type LineEnding = '\r\n' | '\n';
+
+export interface CsvOptions {
+  delimiter: string;
+  lineEnding: LineEnding;
+  // Prefix a UTF-8 byte order mark so Excel detects the encoding
+  bom: boolean;
+  // Quote every field, not just the ones that need it
+  quoteAll: boolean;
+}
+
+export interface CsvRowIssue {
+  // 1-based record number, counting the header
+  row: number;
+  columns: number;
+  expected: number;
+}
+
+const BOM = '\uFEFF';
+
+export const DEFAULT_CSV_OPTIONS: CsvOptions = {
+  delimiter: ',',
+  lineEnding: '\r\n',
+  bom: false,
+  quoteAll: true,
+};
+
+/**
+ * Escapes one field
+ * Fields holding the delimiter, a quote or a line break are quoted, and quotes are doubled.
+ */
+export function escapeCsvField(value: string, delimiter: string, quoteAll = false): string {
+  const needsQuotes = quoteAll ||
+    value.includes(delimiter) ||
+    value.includes('"') ||
+    value.includes('\n') ||
+    value.includes('\r');
+  return needsQuotes ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Serializes rows to CSV text
+ * @param rows - Header row first, then data rows
+ * @param options - Delimiter, line ending, BOM and quoting
+ */
+export function serializeCsv(rows: string[][], options: Partial<CsvOptions> = {}): string {
+  const { delimiter, lineEnding, bom, quoteAll } = { ...DEFAULT_CSV_OPTIONS, ...options };
+  const text = rows
+    .map(row => row.map(field => escapeCsvField(field ?? '', delimiter, quoteAll)).join(delimiter))
+    .join(lineEnding);
+  return bom ? BOM + text : text;
+}
+
+/**
+ * Parses CSV text, honouring quoted delimiters, quotes and line breaks
+ * @param text - CSV content, with or without a BOM
+ * @param delimiter - Field separator
+ * @returns The rows as arrays of fields
+ */
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  const input = text.startsWith(BOM) ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (input.startsWith(delimiter, i)) {
+      row.push(field);
+      field = '';
+      i += delimiter.length - 1;
+    } else if (char === '\r' || char === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      if (char === '\r' && input[i + 1] === '\n') i++;
+    } else {
+      field += char;
+    }
+  }
+
+  // The last row has no trailing line break
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Re-parses CSV output and reports rows whose column count differs from the header
+ * @param text - The serialized CSV
+ * @param delimiter - Field separator used to write it
+ */
+export function validateCsv(text: string, delimiter = ','): CsvRowIssue[] {
+  const rows = parseCsv(text, delimiter);
+  if (rows.length === 0) return [];
+
+  const expected = rows[0].length;
+  return rows
+    .map((row, index) => ({ row: index + 1, columns: row.length, expected }))
+    .filter(issue => issue.columns !== expected);
+}
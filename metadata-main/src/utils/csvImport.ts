@@ -0,0 +1,138 @@
+import { ImageMetadata } from './imageHelpers';
+import { parseCsv } from './csv';
+import { CsvColumn, getPlatformDefinitions, Platform, PlatformDefinition } from './platformDefinitions';
+
+/**
+ * Reads bulk-upload CSVs written by the platform exporters back into metadata
+ */
+
+export interface CsvImportResult {
+  platform: Platform;
+  // Metadata keyed by lowercase filename
+  rows: Map<string, ImageMetadata>;
+  // Rows without a filename, which can't be matched to an image
+  skippedRows: number;
+}
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase();
+
+// How many of a definition's headers appear in the CSV header row; 0 without a filename column
+function scoreHeaders(definition: PlatformDefinition, headers: string[]): number {
+  const filenameColumn = definition.csv.columns.find(column => column.source === 'filename');
+  if (!filenameColumn || !headers.includes(normalizeHeader(filenameColumn.header))) return 0;
+
+  const expected = definition.csv.columns.map(column => normalizeHeader(column.header));
+  const matched = expected.filter(header => headers.includes(header)).length;
+  // An exact layout beats a partial one with the same overlap
+  return matched + (matched === expected.length && expected.length === headers.length ? 0.5 : 0);
+}
+
+function splitList(value: string, separator: string): string[] {
+  return value
+    .split(separator.trim() || separator)
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+// Categories may be exported as their 1-based number in the platform's list
+function parseCategory(value: string, definition: PlatformDefinition): string | undefined {
+  const text = value.trim();
+  if (!text) return undefined;
+  if (definition.categories?.exportAs === 'index' && /^\d+$/.test(text)) {
+    return definition.categories.list[Number(text) - 1];
+  }
+  return text;
+}
+
+function parseRow(row: string[], columns: { column: CsvColumn; index: number }[], definition: PlatformDefinition): ImageMetadata {
+  const metadata: ImageMetadata = { title: '', description: '', keywords: [] };
+  const categories: string[] = [];
+
+  for (const { column, index } of columns) {
+    const value = row[index] ?? '';
+    switch (column.source) {
+      case 'title':
+        metadata.title = value.trim();
+        break;
+      case 'description':
+        metadata.description = value.trim();
+        break;
+      case 'keywords':
+        metadata.keywords = splitList(value, definition.csv.keywordSeparator);
+        break;
+      case 'prompt':
+        metadata.prompt = value.trim() || undefined;
+        break;
+      case 'baseModel':
+        metadata.baseModel = value.trim() || undefined;
+        break;
+      case 'categories':
+        categories.push(...splitList(value, definition.csv.categorySeparator || ',')
+          .map(category => parseCategory(category, definition))
+          .filter(Boolean));
+        break;
+      case 'category': {
+        const category = parseCategory(value, definition);
+        if (category) categories[column.index ?? 0] = category;
+        break;
+      }
+    }
+  }
+
+  if (definition.categories || categories.length > 0) {
+    metadata.categories = categories.filter(Boolean);
+  }
+  return metadata;
+}
+
+/**
+ * Parses an exported CSV, detecting the platform from its header row and delimiter
+ * @param text - The CSV file contents
+ * @param preferred - Platforms to pick first when several layouts match equally well
+ * @throws Error when the header doesn't match any platform layout
+ */
+export function importPlatformCsv(text: string, preferred: Platform[] = []): CsvImportResult {
+  const definitions = getPlatformDefinitions();
+  let best: { definition: PlatformDefinition; rows: string[][]; score: number } | null = null;
+  const parsedByDelimiter = new Map<string, string[][]>();
+
+  for (const definition of definitions) {
+    const { delimiter } = definition.csv;
+    if (!parsedByDelimiter.has(delimiter)) {
+      parsedByDelimiter.set(delimiter, parseCsv(text, delimiter).filter(row => row.some(field => field.trim())));
+    }
+    const rows = parsedByDelimiter.get(delimiter);
+    if (rows.length === 0) continue;
+
+    const score = scoreHeaders(definition, rows[0].map(normalizeHeader));
+    const isBetter = !best || score > best.score ||
+      (score === best.score && preferred.includes(definition.id) && !preferred.includes(best.definition.id));
+    if (score > 0 && isBetter) {
+      best = { definition, rows, score };
+    }
+  }
+
+  if (!best) {
+    throw new Error('The CSV header does not match any platform layout');
+  }
+
+  const { definition, rows } = best;
+  const headers = rows[0].map(normalizeHeader);
+  const columns = definition.csv.columns
+    .map(column => ({ column, index: headers.indexOf(normalizeHeader(column.header)) }))
+    .filter(({ index }) => index !== -1);
+  const filenameIndex = columns.find(({ column }) => column.source === 'filename').index;
+
+  const parsed = new Map<string, ImageMetadata>();
+  let skippedRows = 0;
+  for (const row of rows.slice(1)) {
+    const filename = row[filenameIndex]?.trim();
+    if (!filename) {
+      skippedRows++;
+      continue;
+    }
+    parsed.set(filename.toLowerCase(), parseRow(row, columns, definition));
+  }
+
+  return { platform: definition.id, rows: parsed, skippedRows };
+}
@@ -0,0 +1,294 @@
+import {
+  concatBytes,
+  crc32,
+  latin1Decoder,
+  readUint16BE,
+  readUint32BE,
+  startsWithAscii,
+  uint16BE,
+  uint32BE,
+  utf8Encoder
+} from './binary';
+import { buildIptcRecords, PHOTOSHOP_SIGNATURE, withIptcResource } from './iptc';
+import { buildXmpPacket, EmbeddedMetadata } from './xmp';
+import { ImageMetadata, ProcessedImage } from './imageHelpers';
+
+/**
+ * Writes title, description, keywords and categories into image files as IPTC and XMP
+ *
+ * Everything runs in the browser. Existing XMP is replaced; other metadata such as
+ * EXIF and non-IPTC Photoshop resources is kept.
+ */
+
+export type { EmbeddedMetadata } from './xmp';
+
+export type ImageFormat = 'jpeg' | 'png' | 'tiff';
+
+export const XMP_NAMESPACE = 'http://ns.adobe.com/xap/1.0/\0';
+const XMP_EXTENSION_NAMESPACE = 'http://ns.adobe.com/xmp/extension/\0';
+export const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp';
+export const PNG_IPTC_KEYWORD = 'Raw profile type iptc';
+
+// Largest payload of a JPEG marker segment, after the two length bytes
+const MAX_JPEG_SEGMENT = 65533;
+
+export const TIFF_TAG_XMP = 700;
+export const TIFF_TAG_IPTC = 33723;
+const TIFF_TYPE_BYTE = 1;
+const TIFF_TYPE_UNDEFINED = 7;
+
+// Detect the file format from its MIME type or extension
+export function getImageFormat(file: File): ImageFormat | null {
+  const name = file.name.toLowerCase();
+  if (file.type === 'image/jpeg' || file.type === 'image/jpg' || /\.jpe?g$/.test(name)) return 'jpeg';
+  if (file.type === 'image/png' || name.endsWith('.png')) return 'png';
+  if (file.type === 'image/tiff' || /\.tiff?$/.test(name)) return 'tiff';
+  return null;
+}
+
+// Check if metadata can be written into this file type
+export function canEmbedMetadata(file: File): boolean {
+  return getImageFormat(file) !== null;
+}
+
+/**
+ * Gets the values to embed for an image
+ * Categories from every processed platform are combined when the shared result has none.
+ */
+export function getEmbeddableMetadata(image: ProcessedImage, result: ImageMetadata | undefined = image.result): EmbeddedMetadata {
+  const categories = result?.categories?.length
+    ? result.categories
+    : Array.from(new Set(Object.values(image.platformResults || {}).flatMap(platformResult => platformResult?.categories || [])));
+
+  return {
+    title: result?.title || '',
+    // Caption is required by most portals; fall back to the title
+    description: result?.description || result?.title || '',
+    keywords: result?.keywords || [],
+    categories,
+  };
+}
+
+function jpegSegment(marker: number, payload: Uint8Array): Uint8Array {
+  if (payload.length > MAX_JPEG_SEGMENT) {
+    throw new Error('Metadata is too large for a JPEG segment');
+  }
+  return concatBytes([new Uint8Array([0xff, marker]), uint16BE(payload.length + 2), payload]);
+}
+
+function embedInJpeg(bytes: Uint8Array, xmp: string, iptc: Uint8Array): Uint8Array {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) {
+    throw new Error('Not a valid JPEG file');
+  }
+
+  const kept: Uint8Array[] = [];
+  let existingResources: Uint8Array | null = null;
+  let insertAt = 0;
+  let offset = 2;
+
+  while (offset < bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      throw new Error('Corrupt JPEG marker structure');
+    }
+    const marker = bytes[offset + 1];
+
+    // Start of scan: the rest is image data
+    if (marker === 0xda) {
+      kept.push(bytes.slice(offset));
+      break;
+    }
+    // Fill bytes and markers without a length
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      kept.push(bytes.slice(offset, offset + 2));
+      offset += 2;
+      continue;
+    }
+
+    const length = readUint16BE(bytes, offset + 2);
+    const segment = bytes.slice(offset, offset + 2 + length);
+    const payloadStart = offset + 4;
+    offset += 2 + length;
+
+    const isXmp = marker === 0xe1 &&
+      (startsWithAscii(bytes, XMP_NAMESPACE, payloadStart) || startsWithAscii(bytes, XMP_EXTENSION_NAMESPACE, payloadStart));
+    const isPhotoshop = marker === 0xed && startsWithAscii(bytes, PHOTOSHOP_SIGNATURE, payloadStart);
+
+    if (isXmp) continue;
+    if (isPhotoshop) {
+      existingResources = segment.slice(4 + PHOTOSHOP_SIGNATURE.length);
+      continue;
+    }
+
+    kept.push(segment);
+    // New segments go after the leading JFIF and EXIF segments
+    if (kept.length === insertAt + 1 && (marker === 0xe0 || marker === 0xe1)) {
+      insertAt = kept.length;
+    }
+  }
+
+  const xmpSegment = jpegSegment(0xe1, concatBytes([utf8Encoder.encode(XMP_NAMESPACE), utf8Encoder.encode(xmp)]));
+  const photoshopSegment = jpegSegment(0xed, concatBytes([
+    utf8Encoder.encode(PHOTOSHOP_SIGNATURE),
+    withIptcResource(existingResources, iptc),
+  ]));
+
+  return concatBytes([
+    new Uint8Array([0xff, 0xd8]),
+    ...kept.slice(0, insertAt),
+    xmpSegment,
+    photoshopSegment,
+    ...kept.slice(insertAt),
+  ]);
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const typeAndData = concatBytes([utf8Encoder.encode(type), data]);
+  return concatBytes([uint32BE(data.length), typeAndData, uint32BE(crc32(typeAndData))]);
+}
+
+// Keyword of a tEXt, zTXt or iTXt chunk
+function getPngTextKeyword(data: Uint8Array): string {
+  const end = data.indexOf(0);
+  return latin1Decoder.decode(data.slice(0, end === -1 ? Math.min(data.length, 79) : end));
+}
+
+// IPTC as an ImageMagick-style raw profile, which exiftool and others read from PNG
+function buildPngRawProfile(iptc: Uint8Array): Uint8Array {
+  const hex = Array.from(iptc, byte => byte.toString(16).padStart(2, '0')).join('');
+  const lines = hex.match(/.{1,72}/g) || [];
+  const text = `\niptc\n${String(iptc.length).padStart(8)}\n${lines.join('\n')}\n`;
+  return concatBytes([utf8Encoder.encode(PNG_IPTC_KEYWORD), new Uint8Array([0]), utf8Encoder.encode(text)]);
+}
+
+function embedInPng(bytes: Uint8Array, xmp: string, iptc: Uint8Array): Uint8Array {
+  if (!startsWithAscii(bytes, '\x89PNG\r\n\x1a\n')) {
+    throw new Error('Not a valid PNG file');
+  }
+
+  const chunks: Uint8Array[] = [];
+  let offset = 8;
+  let inserted = false;
+
+  // iTXt: keyword, no compression, empty language tag and translated keyword
+  const xmpChunk = pngChunk('iTXt', concatBytes([
+    utf8Encoder.encode(PNG_XMP_KEYWORD),
+    new Uint8Array([0, 0, 0, 0, 0]),
+    utf8Encoder.encode(xmp),
+  ]));
+  const iptcChunk = pngChunk('tEXt', buildPngRawProfile(iptc));
+
+  while (offset + 8 <= bytes.length) {
+    const length = readUint32BE(bytes, offset);
+    const type = latin1Decoder.decode(bytes.slice(offset + 4, offset + 8));
+    const chunk = bytes.slice(offset, offset + 12 + length);
+    offset += 12 + length;
+
+    if (type === 'iTXt' || type === 'tEXt' || type === 'zTXt') {
+      const keyword = getPngTextKeyword(chunk.slice(8, 8 + length));
+      if (keyword === PNG_XMP_KEYWORD || keyword === PNG_IPTC_KEYWORD) continue;
+    }
+    // Text chunks go before the image data
+    if (type === 'IDAT' && !inserted) {
+      chunks.push(xmpChunk, iptcChunk);
+      inserted = true;
+    }
+    chunks.push(chunk);
+  }
+
+  if (!inserted) {
+    throw new Error('PNG file has no image data');
+  }
+  return concatBytes([bytes.slice(0, 8), ...chunks]);
+}
+
+function embedInTiff(bytes: Uint8Array, xmp: string, iptc: Uint8Array): Uint8Array {
+  const littleEndian = startsWithAscii(bytes, 'II');
+  if (!littleEndian && !startsWithAscii(bytes, 'MM')) {
+    throw new Error('Not a valid TIFF file');
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.getUint16(2, littleEndian) !== 42) {
+    throw new Error('BigTIFF files are not supported');
+  }
+
+  const ifdOffset = view.getUint32(4, littleEndian);
+  const entryCount = view.getUint16(ifdOffset, littleEndian);
+  const nextIfd = view.getUint32(ifdOffset + 2 + entryCount * 12, littleEndian);
+
+  // Keep the existing entries; their value offsets stay valid because data is only appended
+  const entries: { tag: number; raw: Uint8Array }[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    const entryOffset = ifdOffset + 2 + i * 12;
+    const tag = view.getUint16(entryOffset, littleEndian);
+    if (tag === TIFF_TAG_XMP || tag === TIFF_TAG_IPTC) continue;
+    entries.push({ tag, raw: bytes.slice(entryOffset, entryOffset + 12) });
+  }
+
+  const xmpBytes = utf8Encoder.encode(xmp);
+  const pad = (length: number) => new Uint8Array(length % 2);
+
+  // Appended layout: [padding] XMP [pad] IPTC [pad] IFD
+  const start = bytes.length + (bytes.length % 2);
+  const xmpOffset = start;
+  const iptcOffset = xmpOffset + xmpBytes.length + (xmpBytes.length % 2);
+  const newIfdOffset = iptcOffset + iptc.length + (iptc.length % 2);
+
+  const makeEntry = (tag: number, type: number, count: number, valueOffset: number) => {
+    const raw = new Uint8Array(12);
+    const entryView = new DataView(raw.buffer);
+    entryView.setUint16(0, tag, littleEndian);
+    entryView.setUint16(2, type, littleEndian);
+    entryView.setUint32(4, count, littleEndian);
+    entryView.setUint32(8, valueOffset, littleEndian);
+    return { tag, raw };
+  };
+  entries.push(makeEntry(TIFF_TAG_XMP, TIFF_TYPE_BYTE, xmpBytes.length, xmpOffset));
+  entries.push(makeEntry(TIFF_TAG_IPTC, TIFF_TYPE_UNDEFINED, iptc.length, iptcOffset));
+  // IFD entries must be sorted by tag
+  entries.sort((a, b) => a.tag - b.tag);
+
+  const ifd = new Uint8Array(2 + entries.length * 12 + 4);
+  const ifdView = new DataView(ifd.buffer);
+  ifdView.setUint16(0, entries.length, littleEndian);
+  entries.forEach((entry, index) => ifd.set(entry.raw, 2 + index * 12));
+  ifdView.setUint32(2 + entries.length * 12, nextIfd, littleEndian);
+
+  const result = concatBytes([bytes, pad(bytes.length), xmpBytes, pad(xmpBytes.length), iptc, pad(iptc.length), ifd]);
+  new DataView(result.buffer).setUint32(4, newIfdOffset, littleEndian);
+  return result;
+}
+
+/**
+ * Returns a copy of the file with the metadata embedded as IPTC and XMP
+ * @param file - A JPEG, PNG or TIFF image
+ * @param metadata - Title, description, keywords and categories to write
+ */
+export async function embedMetadata(file: File, metadata: EmbeddedMetadata): Promise<File> {
+  const format = getImageFormat(file);
+  if (!format) {
+    throw new Error(`Cannot embed metadata in ${file.name}: only JPEG, PNG and TIFF are supported`);
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const xmp = buildXmpPacket(metadata);
+  const iptc = buildIptcRecords(metadata);
+
+  let tagged: Uint8Array;
+  switch (format) {
+    case 'jpeg':
+      tagged = embedInJpeg(bytes, xmp, iptc);
+      break;
+    case 'png':
+      tagged = embedInPng(bytes, xmp, iptc);
+      break;
+    case 'tiff':
+      tagged = embedInTiff(bytes, xmp, iptc);
+      break;
+  }
+
+  return new File([tagged], file.name, { type: file.type, lastModified: file.lastModified });
+}
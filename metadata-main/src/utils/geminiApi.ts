@@ -1,9 +1,31 @@
-import { Platform } from '@/components/PlatformSelector';
 import { GenerationMode } from '@/components/GenerationModeSelector';
-import { getRelevantFreepikKeywords, suggestCategoriesForShutterstock, suggestCategoriesForAdobeStock, removeSymbolsFromTitle } from './imageHelpers';
+import { ExistingMetadataMode } from '@/components/ExistingMetadataSelector';
+import { removeSymbolsFromTitle, ImageMetadata } from './imageHelpers';
 import { convertSvgToPng } from './imageUtils';
+import { getMetadataSchema, getPlatformFieldKey, pickSchemaFields, validateAgainstSchema, ResponseSchema } from './metadataSchema';
+import { getFieldLimits, getPlatformDefinition, Platform, PlatformDefinition } from './platformDefinitions';
+import { RateLimiter, isAbortError } from './processingQueue';
+import { EmbeddedMetadata } from './xmp';
+import { KeywordPipelineSettings, processKeywords } from './keywordPipeline';
+import { applyPinnedKeywords, getKeywordScores } from './keywordRanking';
+import { ApiRequestError, createProvider, DEFAULT_PROVIDER_SETTINGS, GenerateRequest, getModelInfo, ModelProvider } from '@/integrations/providers';
 
-interface AnalysisOptions {
+// Number of repair prompts sent before a malformed response is reported as an error
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Room for long replies, and for thinking on models that think by default; lowered to the model's own limit
+const MAX_OUTPUT_TOKENS = 8192;
+
+// Typical reply size, charged against the rate limiter's token budget
+const REPLY_TOKEN_ESTIMATE = 1024;
+
+// Gemini bills a fixed 258 tokens for an image of up to 384px per side and tiles larger ones
+const IMAGE_TOKEN_ESTIMATE = 1032;
+
+// Fields that can be regenerated on their own
+export type RegenerableField = 'title' | 'description' | 'keywords';
+
+export interface AnalysisOptions {
   titleLength?: number;
   descriptionLength?: number;
   keywordCount?: number;
@@ -15,18 +37,38 @@ interface AnalysisOptions {
   maxKeywords?: number;
   minDescriptionWords?: number;
   maxDescriptionWords?: number;
+  // Metadata already embedded in the file, given to the model as context
+  existingMetadata?: EmbeddedMetadata;
+  existingMetadataMode?: ExistingMetadataMode;
+  // Only ask for these fields; the others come back empty
+  fields?: RegenerableField[];
+  // The values being replaced, so the model writes something different
+  previous?: Partial<ImageMetadata>;
+  // Extra instructions from the user, such as "focus on the background texture"
+  hint?: string;
+  // Keyword cleanup run on the response; skipped when not given
+  keywordPipeline?: KeywordPipelineSettings;
+  // The image is one of a group of near-duplicates; its title must differ from the others'
+  nearDuplicates?: {
+    count: number;
+    titles: string[];
+  };
+  rateLimiter?: RateLimiter;
+  signal?: AbortSignal;
+  // Defaults to the registry's Gemini model with the given API key
+  provider?: ModelProvider;
 }
 
-interface AnalysisResult {
-  title: string;
-  description: string;
-  keywords: string[];
-  prompt?: string;
-  baseModel?: string;
-  categories?: string[];
+export interface AnalysisResult extends ImageMetadata {
+  // One entry per selected platform, all from the same model call
+  platformResults?: Partial<Record<Platform, ImageMetadata>>;
   error?: string;
 }
 
+// Metadata fields as parsed from a JSON mode response, plus platform-keyed fields
+type ParsedMetadata = Partial<ImageMetadata> & Record<string, unknown>;
+
+// Generate metadata or a prompt for an image with the selected model provider
 export async function analyzeImageWithGemini(
   imageFile: File,
   apiKey: string,
@@ -40,13 +82,19 @@ export async function analyzeImageWithGemini(
     minKeywords = 25,
     maxKeywords = 35,
     minDescriptionWords = 10,
-    maxDescriptionWords = 30
+    maxDescriptionWords = 30,
+    existingMetadata,
+    existingMetadataMode = 'merge',
+    fields,
+    previous,
+    hint,
+    nearDuplicates,
+    keywordPipeline,
+    rateLimiter,
+    signal,
+    provider = createProvider(DEFAULT_PROVIDER_SETTINGS, apiKey, { requirements: { vision: true } })
   } = options;
 
-  const isFreepikOnly = platforms.length === 1 && platforms[0] === 'Freepik';
-  const isShutterstock = platforms.length === 1 && platforms[0] === 'Shutterstock';
-  const isAdobeStock = platforms.length === 1 && platforms[0] === 'AdobeStock';
-  
   try {
     // Check if file is SVG
     const isSvg = imageFile.type === 'image/svg+xml' || imageFile.name.toLowerCase().endsWith('.svg');
@@ -70,85 +118,49 @@ export async function analyzeImageWithGemini(
     // Convert image file to base64
     const base64Image = await fileToBase64(fileToProcess);
     
-    // Define prompt based on platform
-    let prompt = `Analyze this image and generate:`;
+    // Metadata is requested in JSON mode against the platforms' schema
+    const fullSchema = getMetadataSchema(platforms);
+    // Keyword scores come along with regenerated keywords
+    const schema = fields ? pickSchemaFields(fullSchema, fields.includes('keywords') ? [...fields, 'keywordScores'] : fields) : fullSchema;
     
-    if (generationMode === 'imageToPrompt') {
-      prompt = `Generate a detailed prompt description to recreate this image with an AI image generator. Include details about content, style, colors, lighting, and composition. The prompt should be at least 50 words but not more than 150 words.`;
-    } else if (isFreepikOnly) {
-      prompt = `Analyze this image and generate metadata for the Freepik platform:
-1. A clear, descriptive title between ${minTitleWords}-${maxTitleWords} words that accurately describes what's in the image. The title should be relevant for stock image platforms. Don't use any symbols.
-2. Create an image generation prompt that describes this image in 1-2 sentences (30-50 words).
-3. Generate a detailed list of ${minKeywords}-${maxKeywords} relevant, specific keywords (single words or short phrases) that someone might search for to find this image. Focus on content, style, emotions, and technical details of the image.`;
-    } else if (isShutterstock) {
-      prompt = `Analyze this image and generate metadata for the Shutterstock platform:
-1. A clear, descriptive detailed description that's between ${minDescriptionWords}-${maxDescriptionWords} words.
-2. A list of ${minKeywords}-${maxKeywords} relevant, specific keywords (single words or short phrases) that someone might search for to find this image.`;
-    } else if (isAdobeStock) {
-      prompt = `Analyze this image and generate metadata for Adobe Stock:
-1. A clear, descriptive title between ${minTitleWords}-${maxTitleWords} words. Don't use any symbols.
-2. A list of ${minKeywords}-${maxKeywords} relevant, specific keywords (single words or short phrases) that someone might search for to find this image.`;
-    } else {
-      prompt = `Analyze this image and generate:
-1. A clear, descriptive title between ${minTitleWords}-${maxTitleWords} words. Don't use any symbols.
-2. A detailed description that's between ${minDescriptionWords}-${maxDescriptionWords} words.
-3. A list of ${minKeywords}-${maxKeywords} relevant, specific keywords (single words or short phrases) that someone might search for to find this image.`;
-    }
+    // Define prompt based on the platform definitions
+    let prompt: string;
     
     if (generationMode === 'imageToPrompt') {
+      prompt = `Generate a detailed prompt description to recreate this image with an AI image generator. Include details about content, style, colors, lighting, and composition. The prompt should be at least 50 words but not more than 150 words.`;
       prompt += `\n\nReturn the prompt description only, nothing else.`;
-    } else if (isFreepikOnly) {
-      prompt += `\n\nFormat your response as a JSON object with the fields "title", "prompt", and "keywords" (as an array of at least ${minKeywords} terms).`;
-    } else if (isShutterstock) {
-      prompt += `\n\nFormat your response as a JSON object with the fields "description" and "keywords" (as an array).`;
-    } else if (isAdobeStock) {
-      prompt += `\n\nFormat your response as a JSON object with the fields "title" and "keywords" (as an array).`;
     } else {
-      prompt += `\n\nFormat your response as a JSON object with the fields "title", "description", and "keywords" (as an array).`;
+      prompt = buildMetadataPrompt(platforms, schema, {
+        minTitleWords,
+        maxTitleWords,
+        minKeywords,
+        maxKeywords,
+        minDescriptionWords,
+        maxDescriptionWords
+      });
+      if (existingMetadata) {
+        prompt += `\n\n${buildExistingMetadataContext(existingMetadata)}`;
+      }
+      const previousContext = previous && fields ? buildPreviousValuesContext(previous, fields) : '';
+      if (previousContext) {
+        prompt += `\n\n${previousContext}`;
+      }
+      if (nearDuplicates) {
+        prompt += `\n\n${buildNearDuplicateContext(nearDuplicates.count, nearDuplicates.titles)}`;
+      }
     }
-    
-    const base64Data = base64Image.split(',')[1];
-    
-    // Updated to use the newer Gemini 1.5 Flash model
-    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${apiKey}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [
-          {
-            parts: [
-              { text: prompt },
-              {
-                inline_data: {
-                  mime_type: fileToProcess.type,
-                  data: base64Data,
-                },
-              },
-            ],
-          },
-        ],
-        generationConfig: {
-          temperature: 0.4,
-          topK: 32,
-          topP: 0.95,
-          maxOutputTokens: 1024,
-        },
-      }),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json();
-      console.error('API error:', errorData);
-      throw new Error(errorData?.error?.message || 'Failed to analyze image');
+    if (hint?.trim()) {
+      prompt += `\n\nAdditional instructions: ${hint.trim()}`;
     }
-
-    const data = await response.json();
-    const text = data.candidates[0]?.content?.parts[0]?.text || '';
+    
+    const image = {
+      mimeType: fileToProcess.type,
+      data: base64Image.split(',')[1],
+    };
     
     // For image-to-prompt mode, just return the description
     if (generationMode === 'imageToPrompt') {
+      const text = await generateText(provider, { prompt, image, signal }, rateLimiter);
       return {
         title: '',
         description: text.trim(),
@@ -156,66 +168,76 @@ export async function analyzeImageWithGemini(
       };
     }
     
-    // Extract JSON from the response text
-    const jsonMatch = text.match(/```json\n([\s\S]*?)\n```/) || 
-                     text.match(/```\n([\s\S]*?)\n```/) ||
-                     text.match(/\{[\s\S]*\}/);
-                    
-    let jsonStr = jsonMatch ? jsonMatch[1] || jsonMatch[0] : text;
-    
-    // Clean up potential garbage around the JSON object
-    jsonStr = jsonStr.replace(/^[^{]*/, '').replace(/[^}]*$/, '');
-    
-    let result;
-    try {
-      result = JSON.parse(jsonStr);
-    } catch (e) {
-      console.error('Failed to parse JSON from response:', jsonStr);
-      console.error('Original response:', text);
-      throw new Error('Failed to parse metadata from the API response');
-    }
+    const text = await generateText(provider, { prompt, image, responseSchema: schema, signal }, rateLimiter);
     
-    // Ensure titles don't have symbols
-    if (result.title) {
-      result.title = removeSymbolsFromTitle(result.title);
+    let { value: result, issues } = checkResponse(text, schema);
+    let lastResponse = text;
+    
+    // Ask the model to repair a response that failed the schema check
+    for (let attempt = 1; issues.length > 0 && attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      console.warn(`Response failed schema check (repair attempt ${attempt}/${MAX_REPAIR_ATTEMPTS}):`, issues);
+      
+      const repairPrompt = `${prompt}
+
+Your previous response did not match the required JSON schema.
+
+Previous response:
+${lastResponse}
+
+Problems found:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Return only the corrected JSON object.`;
+      
+      lastResponse = await generateText(provider, { prompt: repairPrompt, image, responseSchema: schema, signal }, rateLimiter);
+      ({ value: result, issues } = checkResponse(lastResponse, schema));
     }
     
-    // For Freepik, use the keywords provided directly from the API response
-    if (isFreepikOnly) {
-      // If keywords exist in the result, use them
-      if (!result.keywords || result.keywords.length < minKeywords) {
-        // Fallback: Generate keywords from the prompt if not enough keywords provided
-        const freepikKeywords = getRelevantFreepikKeywords(result.prompt || '');
-        result.keywords = freepikKeywords;
-      }
-      result.baseModel = "leonardo";
+    if (issues.length > 0) {
+      console.error('Response failed schema check after repair attempts:', issues);
+      console.error('Last response:', lastResponse);
+      throw new Error('Failed to parse metadata from the API response');
     }
     
-    // For Shutterstock, suggest categories based on content
-    if (isShutterstock) {
-      result.categories = suggestCategoriesForShutterstock(
-        result.title || '', 
-        result.description || ''
-      );
+    // Regenerated fields replace the user's current values, so embedded metadata isn't applied again
+    if (existingMetadata && !fields) {
+      result = applyExistingMetadata(result, existingMetadata, existingMetadataMode, maxKeywords);
     }
     
-    // For Adobe Stock, suggest categories based on content
-    if (isAdobeStock) {
-      result.categories = suggestCategoriesForAdobeStock(
-        result.title || '',
-        result.keywords || []
-      );
+    // Shape the response for each selected platform
+    const platformResults: Partial<Record<Platform, ImageMetadata>> = {};
+    for (const platform of platforms) {
+      platformResults[platform] = buildPlatformResult(getPlatformDefinition(platform), result, platforms, {
+        minKeywords,
+        maxKeywords,
+        pipeline: keywordPipeline
+      });
     }
     
-    return {
-      title: result.title || '',
+    // A single platform keeps its own fields; several share the superset
+    const shared: ImageMetadata = platforms.length === 1 ? platformResults[platforms[0]] : {
+      title: result.title ? removeSymbolsFromTitle(result.title) : '',
       description: result.description || '',
-      keywords: result.keywords || [],
+      keywords: keywordPipeline
+        ? processKeywords(result.keywords || [], keywordPipeline, {
+          minKeywords,
+          maxKeywords,
+          context: [result.title || '', result.description || ''],
+          scores: getKeywordScores(result.keywords, result.keywordScores)
+        })
+        : result.keywords || [],
       prompt: result.prompt,
-      baseModel: result.baseModel || "leonardo",
-      categories: result.categories,
+    };
+    
+    return {
+      ...shared,
+      platformResults,
     };
   } catch (error) {
+    // Rate limits, server errors and aborts are left to the queue to handle
+    if ((error instanceof ApiRequestError && error.retryable) || isAbortError(error)) {
+      throw error;
+    }
     console.error('Error analyzing image:', error);
     return {
       title: '',
@@ -226,6 +248,330 @@ export async function analyzeImageWithGemini(
   }
 }
 
+// Names the model is asked to look for, beyond those already on the restricted list
+const RESTRICTED_TERMS_SCHEMA: ResponseSchema = {
+  type: 'OBJECT',
+  properties: {
+    terms: {
+      type: 'ARRAY',
+      description: 'Brand names, trademarks, product names, logos, characters and artist names, exactly as written',
+      items: { type: 'STRING' },
+    },
+  },
+  required: ['terms'],
+};
+
+/**
+ * Asks the model for brand, trademark and artist names in generated metadata
+ * Text only, so it works after the image has been processed and costs a small request.
+ * @returns The names found, as written in the metadata
+ */
+export async function detectRestrictedTerms(
+  metadata: ImageMetadata,
+  apiKey: string,
+  options: Pick<AnalysisOptions, 'provider' | 'rateLimiter' | 'signal'> = {}
+): Promise<string[]> {
+  const {
+    rateLimiter,
+    signal,
+    provider = createProvider(DEFAULT_PROVIDER_SETTINGS, apiKey)
+  } = options;
+  
+  const prompt = `Stock sites reject metadata that names brands, trademarks, trademarked products, logos, copyrighted characters, franchises or artists. List every such name in the metadata below, exactly as written. Generic words such as "smartphone" or "soda" are fine and must not be listed.
+
+Title: ${metadata.title || ''}
+Description: ${metadata.description || ''}
+Keywords: ${(metadata.keywords || []).join(', ')}
+
+Return a JSON object with a "terms" array, empty if there are none.`;
+  
+  const text = await generateText(provider, { prompt, responseSchema: RESTRICTED_TERMS_SCHEMA, signal }, rateLimiter);
+  const { value, issues } = checkResponse(text, RESTRICTED_TERMS_SCHEMA);
+  if (issues.length > 0) {
+    console.error('Restricted term response failed schema check:', issues);
+    throw new Error('Failed to parse restricted terms from the API response');
+  }
+  return (value.terms as string[]).map(term => term.trim()).filter(Boolean);
+}
+
+type WordLimits = Required<Pick<AnalysisOptions, 'minTitleWords' | 'maxTitleWords' | 'minKeywords' | 'maxKeywords' | 'minDescriptionWords' | 'maxDescriptionWords'>>;
+
+// Narrow the user's range to what the platforms allow
+function clampRange(min: number, max: number, platformMin?: number, platformMax?: number): [number, number] {
+  const upper = Math.min(max, platformMax ?? max);
+  return [Math.min(Math.max(min, platformMin ?? min), upper), upper];
+}
+
+// Prompt asking for every field in the schema, for all selected platforms in one response
+function buildMetadataPrompt(platforms: Platform[], schema: ResponseSchema, limits: WordLimits): string {
+  const definitions = platforms.map(getPlatformDefinition);
+  const fields = schema.properties || {};
+  const lines: string[] = [];
+
+  if (fields.title) {
+    const titleLimits = getFieldLimits(definitions, 'title');
+    const [min, max] = clampRange(limits.minTitleWords, limits.maxTitleWords, titleLimits.minWords, titleLimits.maxWords);
+    const length = titleLimits.maxLength ? ` Keep it under ${titleLimits.maxLength} characters.` : '';
+    lines.push(`A clear, descriptive title between ${min}-${max} words that accurately describes what's in the image.${length} Don't use any symbols.`);
+  }
+  if (fields.description) {
+    const descriptionLimits = getFieldLimits(definitions, 'description');
+    const [min, max] = clampRange(limits.minDescriptionWords, limits.maxDescriptionWords, descriptionLimits.minWords, descriptionLimits.maxWords);
+    const length = descriptionLimits.maxLength ? ` Keep it under ${descriptionLimits.maxLength} characters.` : '';
+    lines.push(`A detailed description that's between ${min}-${max} words.${length}`);
+  }
+  if (fields.prompt) {
+    lines.push(`An image generation prompt that describes this image in 1-2 sentences (30-50 words).`);
+  }
+  if (fields.keywords) {
+    const keywordLimits = getFieldLimits(definitions, 'keywords');
+    const [minKeywords, maxKeywords] = clampRange(limits.minKeywords, limits.maxKeywords, keywordLimits.minItems, keywordLimits.maxItems);
+    const scores = fields.keywordScores ? ' In "keywordScores", give each keyword a relevance score from 0 to 100, in the same order.' : '';
+    lines.push(`A list of ${minKeywords}-${maxKeywords} relevant, specific keywords (single words or short phrases) that someone might search for to find this image, from most to least relevant. Focus on content, style, emotions, and technical details of the image.${scores}`);
+  }
+  for (const definition of definitions) {
+    const key = getPlatformFieldKey('categories', definition.id, platforms);
+    if (fields[key] && definition.categories) {
+      lines.push(`In "${key}", up to ${definition.categories.maxItems} ${definition.name} categories from the allowed list.`);
+    }
+  }
+
+  const notes = definitions
+    .filter(definition => definition.promptNotes)
+    .map(definition => platforms.length > 1 ? `${definition.name}: ${definition.promptNotes}` : definition.promptNotes);
+
+  return `Analyze this image and generate metadata for ${definitions.map(definition => definition.name).join(', ')}:
+${lines.map((line, index) => `${index + 1}. ${line}`).join('\n')}${notes.length > 0 ? `\n\n${notes.join('\n')}` : ''}
+
+Format your response as a JSON object with the fields ${Object.keys(fields).map(field => `"${field}"`).join(', ')}, with keywords and categories as arrays.`;
+}
+
+// Metadata the author already wrote, so the model can reuse names, places and terms it can't see
+function buildExistingMetadataContext(existing: EmbeddedMetadata): string {
+  const lines = [
+    existing.title && `Title: ${existing.title}`,
+    existing.description && `Description: ${existing.description}`,
+    existing.keywords.length > 0 && `Keywords: ${existing.keywords.join(', ')}`,
+  ].filter(Boolean);
+  return `The file already contains this metadata from its author. Use it as context where it matches the image, but describe what is actually shown:
+${lines.join('\n')}`;
+}
+
+// Current values of the fields being regenerated
+function buildPreviousValuesContext(previous: Partial<ImageMetadata>, fields: RegenerableField[]): string {
+  const lines = fields
+    .map(field => {
+      const value = previous[field];
+      const text = Array.isArray(value) ? value.join(', ') : value;
+      return text ? `Current ${field}: ${text}` : '';
+    })
+    .filter(Boolean);
+  return lines.length > 0 ? `Write new wording that differs from the current values:\n${lines.join('\n')}` : '';
+}
+
+// Stock sites reject near-identical titles, so each variation of a scene needs its own
+function buildNearDuplicateContext(count: number, titles: string[]): string {
+  const lines = [
+    `This image is one of ${count} near-identical variations of the same scene. Write a title that sets it apart from the others by what is specific to this one, such as framing, angle, colors or details.`
+  ];
+  if (titles.length > 0) {
+    lines.push(`Do not reuse or closely paraphrase these titles:\n${titles.map(title => `- ${title}`).join('\n')}`);
+  }
+  return lines.join('\n');
+}
+
+// Combine the model output with the file's own metadata; platform limits are applied afterwards
+function applyExistingMetadata(
+  result: ParsedMetadata,
+  existing: EmbeddedMetadata,
+  mode: ExistingMetadataMode,
+  maxKeywords: number
+): ParsedMetadata {
+  const generatedKeywords = result.keywords || [];
+  switch (mode) {
+    case 'keep':
+      return {
+        ...result,
+        title: existing.title || result.title,
+        description: existing.description || result.description,
+        keywords: existing.keywords.length > 0 ? existing.keywords : generatedKeywords,
+      };
+    case 'merge': {
+      // Existing keywords first, then new ones that aren't already there
+      const seen = new Set(existing.keywords.map(keyword => keyword.toLowerCase()));
+      const added = generatedKeywords.filter(keyword => !seen.has(keyword.toLowerCase()));
+      return { ...result, keywords: [...existing.keywords, ...added].slice(0, Math.max(maxKeywords, existing.keywords.length)) };
+    }
+    default:
+      return result;
+  }
+}
+
+// Cut text at a word boundary so it fits a character limit
+function truncateText(text: string, maxLength?: number): string {
+  if (!maxLength || text.length <= maxLength) return text;
+  const cut = text.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(' ');
+  return (lastSpace > 0 ? cut.slice(0, lastSpace) : cut).replace(/[\s,.;:-]+$/, '');
+}
+
+// Pick the fields a platform uses from the shared response and apply its limits
+function buildPlatformResult(
+  definition: PlatformDefinition,
+  result: ParsedMetadata,
+  platforms: Platform[],
+  keywordOptions: { minKeywords: number; maxKeywords: number; pipeline?: KeywordPipelineSettings }
+): ImageMetadata {
+  const limits = definition.limits || {};
+  const metadata: ImageMetadata = {
+    // Ensure titles don't have symbols
+    title: truncateText(result.title ? removeSymbolsFromTitle(result.title) : '', limits.title?.maxLength),
+    description: truncateText(result.description || '', limits.description?.maxLength),
+    keywords: result.keywords || [],
+  };
+  
+  if (definition.fields.includes('prompt')) {
+    metadata.prompt = result.prompt;
+  }
+  if (definition.baseModel) {
+    metadata.baseModel = definition.baseModel;
+  }
+  if (definition.suggestKeywords && metadata.keywords.length < keywordOptions.minKeywords) {
+    metadata.keywords = definition.suggestKeywords(metadata);
+  }
+  if (keywordOptions.pipeline) {
+    metadata.keywords = processKeywords(metadata.keywords, keywordOptions.pipeline, {
+      minKeywords: keywordOptions.minKeywords,
+      maxKeywords: Math.min(keywordOptions.maxKeywords, limits.keywords?.maxItems ?? Infinity),
+      phraseRule: definition.keywordPhrases,
+      context: [metadata.title, result.description || '', metadata.prompt || ''],
+      scores: getKeywordScores(result.keywords, result.keywordScores)
+    });
+  }
+  if (limits.keywords?.maxItems) {
+    metadata.keywords = metadata.keywords.slice(0, limits.keywords.maxItems);
+  }
+  
+  if (definition.categories) {
+    let categories = (result[getPlatformFieldKey('categories', definition.id, platforms)] as string[] | undefined) || [];
+    // Suggest categories based on content when the model picked none
+    if (categories.length === 0 && definition.suggestCategories) {
+      categories = definition.suggestCategories(metadata);
+    }
+    metadata.categories = categories.slice(0, definition.categories.maxItems);
+  }
+  
+  return metadata;
+}
+
+/**
+ * Carry an edit of the shared result over to one platform's copy
+ * Keywords added to or removed from the shared list are added to or removed from the platform's own
+ * list, so its order and cap are kept, and text is cut to the platform's limits as after generation.
+ */
+export function applySharedEdit(
+  definition: PlatformDefinition,
+  current: ImageMetadata,
+  shared: ImageMetadata | undefined,
+  changes: Partial<ImageMetadata>,
+  pipeline?: KeywordPipelineSettings
+): ImageMetadata {
+  const limits = definition.limits || {};
+  const updated: ImageMetadata = { ...current, ...changes };
+  
+  if (changes.title !== undefined) {
+    updated.title = truncateText(removeSymbolsFromTitle(changes.title), limits.title?.maxLength);
+  }
+  if (changes.description !== undefined) {
+    updated.description = truncateText(changes.description, limits.description?.maxLength);
+  }
+  if (changes.keywords) {
+    // The platform's cleanup and phrase rule; the order and count are the user's, so nothing is re-ranked or topped up
+    const clean = (keywords: string[]) => pipeline
+      ? processKeywords(keywords, { ...pipeline, rankByRelevance: false, enforceCount: false }, {
+        minKeywords: 0,
+        maxKeywords: Infinity,
+        phraseRule: definition.keywordPhrases
+      })
+      : keywords;
+    const toKey = (keyword: string) => keyword.toLowerCase();
+    const before = new Set((shared?.keywords || []).map(toKey));
+    const after = new Set(changes.keywords.map(toKey));
+    const remaining = new Set(clean(changes.keywords).map(toKey));
+    // A split phrase only loses the words no remaining keyword still gives
+    const removed = new Set(clean((shared?.keywords || []).filter(keyword => !after.has(toKey(keyword))))
+      .map(toKey)
+      .filter(keyword => !remaining.has(keyword)));
+    const added = changes.keywords.filter(keyword => !before.has(toKey(keyword)));
+    const pinned = clean(changes.pinnedKeywords ?? current.pinnedKeywords ?? []);
+    
+    const ordered = applyPinnedKeywords(
+      clean([...pinned, ...current.keywords.filter(keyword => !removed.has(toKey(keyword))), ...added]),
+      pinned
+    );
+    updated.keywords = ordered.keywords.slice(0, limits.keywords?.maxItems);
+    updated.pinnedKeywords = ordered.pinned;
+  }
+  
+  return updated;
+}
+
+// Wait for the rate limiter, then send the request to the provider
+async function generateText(
+  provider: ModelProvider,
+  request: GenerateRequest,
+  rateLimiter?: RateLimiter
+): Promise<string> {
+  if (rateLimiter) {
+    await rateLimiter.acquire(estimateRequestTokens(request), request.signal);
+  }
+  // Models known to lack JSON mode rely on the prompt's format instructions and the repair loop
+  const model = getModelInfo(provider.model);
+  return provider.generate({
+    maxOutputTokens: Math.min(MAX_OUTPUT_TOKENS, model?.outputTokenLimit ?? MAX_OUTPUT_TOKENS),
+    ...request,
+    responseSchema: model && !model.jsonMode ? undefined : request.responseSchema,
+  });
+}
+
+// Rough token cost of a request: about 4 characters per text token plus the image and the reply
+function estimateRequestTokens(request: GenerateRequest): number {
+  return Math.ceil(request.prompt.length / 4) + (request.image ? IMAGE_TOKEN_ESTIMATE : 0) + REPLY_TOKEN_ESTIMATE;
+}
+
+// Parse a JSON response and check it against the schema
+function checkResponse(text: string, schema: ResponseSchema): { value: ParsedMetadata | null; issues: string[] } {
+  const value = parseJsonResponse(text);
+  if (value === null) {
+    return { value: null, issues: ['response is not valid JSON'] };
+  }
+  return { value: value as ParsedMetadata, issues: validateAgainstSchema(value, schema) };
+}
+
+// JSON mode normally returns bare JSON, but tolerate fenced or wrapped objects
+function parseJsonResponse(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    // Fall through to extraction
+  }
+  
+  const jsonMatch = text.match(/```json\n([\s\S]*?)\n```/) || 
+                   text.match(/```\n([\s\S]*?)\n```/) ||
+                   text.match(/\{[\s\S]*\}/);
+  
+  let jsonStr = jsonMatch ? jsonMatch[1] || jsonMatch[0] : text;
+  
+  // Clean up potential garbage around the JSON object
+  jsonStr = jsonStr.replace(/^[^{]*/, '').replace(/[^}]*$/, '');
+  
+  try {
+    return JSON.parse(jsonStr);
+  } catch {
+    return null;
+  }
+}
+
 // Helper function to convert file to base64
 function fileToBase64(file: File): Promise<string> {
   return new Promise((resolve, reject) => {
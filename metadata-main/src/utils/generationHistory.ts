@@ -0,0 +1,245 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { getPlatformResult, ImageMetadata, ProcessedImage } from './imageHelpers';
+import { getPlatformDefinition, Platform } from './platformDefinitions';
+import { CachedResult, CacheSettings, getImageCacheKey } from './resultCache';
+import { DUPLICATE_DISTANCE, hammingDistance } from './perceptualHash';
+
+/**
+ * Generated results kept per user in Supabase, with thumbnails in Storage
+ *
+ * The table and bucket are created by supabase/setup_generation_history.sql.
+ */
+
+export type GenerationHistoryRow = Database['public']['Tables']['generation_history']['Row'];
+
+export interface HistoryFilters {
+  query?: string;
+  platform?: Platform;
+  // Inclusive dates as YYYY-MM-DD
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+const THUMBNAIL_BUCKET = 'generation-thumbnails';
+const THUMBNAIL_SIZE = 320;
+// Signed thumbnail links last an hour, longer than a history page stays open
+const THUMBNAIL_URL_TTL = 60 * 60;
+
+// Downscale the preview to a small JPEG; returns null for videos and previews that fail to load
+function createThumbnail(previewUrl: string): Promise<Blob | null> {
+  return new Promise(resolve => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(img.width, img.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(img.width * scale));
+      canvas.height = Math.max(1, Math.round(img.height * scale));
+      const context = canvas.getContext('2d');
+      if (!context) {
+        resolve(null);
+        return;
+      }
+      context.drawImage(img, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(blob => resolve(blob), 'image/jpeg', 0.8);
+    };
+    img.onerror = () => resolve(null);
+    img.src = previewUrl;
+  });
+}
+
+function rowToMetadata(row: GenerationHistoryRow): ImageMetadata {
+  return {
+    title: row.title,
+    description: row.description,
+    keywords: row.keywords,
+    categories: row.categories,
+    prompt: row.prompt ?? undefined,
+    baseModel: row.base_model ?? undefined,
+    pinnedKeywords: row.pinned_keywords?.length ? row.pinned_keywords : undefined,
+  };
+}
+
+async function uploadThumbnail(userId: string, image: ProcessedImage): Promise<string | null> {
+  const thumbnail = await createThumbnail(image.previewUrl);
+  if (!thumbnail) return null;
+
+  const path = `${userId}/${crypto.randomUUID()}.jpg`;
+  const { error } = await supabase.storage.from(THUMBNAIL_BUCKET).upload(path, thumbnail, { contentType: 'image/jpeg' });
+  if (error) {
+    console.warn('Error uploading thumbnail:', error);
+    return null;
+  }
+  return path;
+}
+
+/**
+ * Saves an image's results to the user's history, one row per platform
+ * Failures are logged and don't interrupt processing.
+ */
+export async function saveGenerationHistory(userId: string, image: ProcessedImage, platforms: Platform[], model?: string): Promise<void> {
+  try {
+    const thumbnailPath = await uploadThumbnail(userId, image);
+    const cacheKey = await getImageCacheKey(image);
+    const rows = platforms
+      .map(platform => ({ platform, result: getPlatformResult(image, platform) }))
+      .filter(({ result }) => result)
+      .map(({ platform, result }) => ({
+        user_id: userId,
+        filename: image.file.name,
+        platform,
+        title: result.title || '',
+        description: result.description || '',
+        keywords: result.keywords || [],
+        categories: result.categories || [],
+        prompt: result.prompt ?? null,
+        base_model: result.baseModel ?? null,
+        pinned_keywords: result.pinnedKeywords || [],
+        model: model || null,
+        thumbnail_path: thumbnailPath,
+        cache_key: cacheKey,
+        perceptual_hash: image.perceptualHash || null,
+      }));
+    if (rows.length === 0) return;
+
+    const { error } = await supabase.from('generation_history').insert(rows);
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error saving generation history:', error);
+  }
+}
+
+/**
+ * Searches the signed-in user's history, newest first
+ * The query uses web search syntax: words, "quoted phrases" and -excluded words.
+ */
+export async function searchGenerationHistory(filters: HistoryFilters = {}): Promise<GenerationHistoryRow[]> {
+  let request = supabase
+    .from('generation_history')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(filters.limit ?? 200);
+
+  if (filters.query?.trim()) {
+    request = request.textSearch('search', filters.query.trim(), { type: 'websearch', config: 'simple' });
+  }
+  if (filters.platform) {
+    request = request.eq('platform', filters.platform);
+  }
+  if (filters.from) {
+    request = request.gte('created_at', new Date(`${filters.from}T00:00:00`).toISOString());
+  }
+  if (filters.to) {
+    request = request.lte('created_at', new Date(`${filters.to}T23:59:59.999`).toISOString());
+  }
+
+  const { data, error } = await request;
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Finds the latest results saved under a cache key, so a file processed on another
+ * device (or before the local cache was cleared) isn't generated again
+ * @param key - See getResultCacheKey
+ * @param settings - The settings the key was made from
+ */
+export async function findHistoryResult(key: string, settings: CacheSettings): Promise<CachedResult | null> {
+  const { data, error } = await supabase
+    .from('generation_history')
+    .select('*')
+    .eq('cache_key', key)
+    .order('created_at', { ascending: false })
+    .limit(50);
+  if (error) {
+    console.warn('Error looking up generation history:', error);
+    return null;
+  }
+  if (!data || data.length === 0) return null;
+
+  // Rows saved together share a timestamp; older runs of the same file are ignored
+  const latest = data.filter(row => row.created_at === data[0].created_at);
+  // Rows saved before prompts were stored can't restore a platform that takes one
+  if (latest.some(row => row.prompt === null && getPlatformDefinition(row.platform).fields.includes('prompt'))) {
+    return null;
+  }
+  const platformResults: Partial<Record<Platform, ImageMetadata>> = Object.fromEntries(latest.map(row => [row.platform, rowToMetadata(row)]));
+
+  return {
+    key,
+    savedAt: latest[0].created_at,
+    result: platformResults[settings.platforms[0]] || Object.values(platformResults)[0],
+    platformResults,
+    generation: {
+      processedAt: latest[0].created_at,
+      model: latest[0].model || undefined,
+      ...settings,
+    },
+  };
+}
+
+/**
+ * Finds earlier uploads that look like the given images
+ * Compares against the user's most recent history, closest match first.
+ * @returns The matching history entry for each image id that has one
+ */
+export async function findSimilarInHistory(images: ProcessedImage[]): Promise<Map<string, ProcessedImage['historyMatch']>> {
+  const matches = new Map<string, ProcessedImage['historyMatch']>();
+  const hashed = images.filter(img => img.perceptualHash);
+  if (hashed.length === 0) return matches;
+
+  const { data, error } = await supabase
+    .from('generation_history')
+    .select('filename, perceptual_hash, created_at')
+    .not('perceptual_hash', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(1000);
+  if (error) {
+    console.warn('Error loading generation history hashes:', error);
+    return matches;
+  }
+
+  for (const img of hashed) {
+    let closest = DUPLICATE_DISTANCE + 1;
+    for (const row of data || []) {
+      const distance = hammingDistance(img.perceptualHash, row.perceptual_hash);
+      if (distance < closest) {
+        closest = distance;
+        matches.set(img.id, { filename: row.filename, createdAt: row.created_at });
+      }
+    }
+  }
+  return matches;
+}
+
+// Signed links for the rows' thumbnails, keyed by storage path
+export async function getThumbnailUrls(rows: GenerationHistoryRow[]): Promise<Record<string, string>> {
+  const paths = Array.from(new Set(rows.map(row => row.thumbnail_path).filter(Boolean)));
+  if (paths.length === 0) return {};
+
+  const { data, error } = await supabase.storage.from(THUMBNAIL_BUCKET).createSignedUrls(paths, THUMBNAIL_URL_TTL);
+  if (error) {
+    console.warn('Error signing thumbnail links:', error);
+    return {};
+  }
+  return Object.fromEntries((data || []).filter(item => item.signedUrl).map(item => [item.path, item.signedUrl]));
+}
+
+/**
+ * Turns history rows back into completed images so the platform exporters can write them
+ * The files are empty placeholders; exporters only read their names.
+ */
+export function historyRowsToImages(rows: GenerationHistoryRow[]): ProcessedImage[] {
+  return rows.map(row => {
+    const result = rowToMetadata(row);
+    return {
+      id: row.id,
+      file: new File([], row.filename),
+      previewUrl: '',
+      status: 'complete' as const,
+      result,
+      platformResults: { [row.platform]: result },
+    };
+  });
+}
@@ -1,19 +1,112 @@
+import { Platform } from './platformDefinitions';
+import { EmbeddedMetadata } from './xmp';
+import type { MetadataVersion } from './metadataHistory';
+
+export interface ImageMetadata {
+  title: string;
+  description: string;
+  keywords: string[];
+  prompt?: string;
+  baseModel?: string;
+  categories?: string[]; // Added categories field for Shutterstock and AdobeStock
+  // Keywords the user pinned to the front of the list
+  pinnedKeywords?: string[];
+}
+
+// Settings an image was processed with, kept for structured exports
+export interface GenerationInfo {
+  processedAt: string;
+  model?: string;
+  platforms: Platform[];
+  mode: 'metadata' | 'imageToPrompt';
+  limits: {
+    minTitleWords?: number;
+    maxTitleWords?: number;
+    minKeywords?: number;
+    maxKeywords?: number;
+    minDescriptionWords?: number;
+    maxDescriptionWords?: number;
+  };
+}
+
 export interface ProcessedImage {
   id: string;
   file: File;
   previewUrl: string;
   status: 'pending' | 'processing' | 'complete' | 'error';
-  result?: {
-    title: string;
-    description: string;
-    keywords: string[];
-    prompt?: string;
-    baseModel?: string;
-    categories?: string[]; // Added categories field for Shutterstock and AdobeStock
+  result?: ImageMetadata;
+  // Metadata shaped for each platform selected when the image was processed
+  platformResults?: Partial<Record<Platform, ImageMetadata>>;
+  // Title, description and keywords found in the file's EXIF, IPTC or XMP on upload
+  embeddedMetadata?: EmbeddedMetadata;
+  generation?: GenerationInfo;
+  // SHA-256 of the file, set when it is first queued; see resultCache
+  contentHash?: string;
+  // Results were reused from the cache instead of generated
+  cached?: boolean;
+  // dHash of the preview for near-duplicate detection; see perceptualHash
+  perceptualHash?: string;
+  // A similar file found in the user's generation history
+  historyMatch?: {
+    filename: string;
+    createdAt: string;
   };
+  // Brand or trademark names the model found in the results; see restrictedTerms
+  detectedTerms?: string[];
+  // Snapshots of the results after each generation, edit or import; see metadataHistory
+  history?: MetadataVersion[];
+  historyIndex?: number;
   error?: string;
 }
 
+// Get an image's metadata for a platform, falling back to the shared result
+export function getPlatformResult(image: ProcessedImage, platform: Platform): ImageMetadata | undefined {
+  return image.platformResults?.[platform] || image.result;
+}
+
+/**
+ * Applies an edit to an image's results
+ * Shared fields go to every platform's copy, through `shape` when given so each copy keeps its own limits;
+ * with a platform, only that platform's copy changes, plus the shared result when the image was processed
+ * for that platform alone.
+ */
+export function updateImageResult(
+  image: ProcessedImage,
+  changes: Partial<ImageMetadata>,
+  platform?: Platform,
+  shape?: (platform: Platform, current: ImageMetadata) => ImageMetadata
+): ProcessedImage {
+  const platformResults = { ...image.platformResults };
+
+  if (platform) {
+    const current = getPlatformResult(image, platform);
+    platformResults[platform] = { ...current, ...changes };
+    const isOnlyPlatform = Object.keys(platformResults).every(key => key === platform);
+    return {
+      ...image,
+      platformResults,
+      result: isOnlyPlatform || !image.result ? { ...image.result, ...current, ...changes } : image.result,
+    };
+  }
+
+  const keys = Object.keys(platformResults);
+  for (const key of keys) {
+    platformResults[key] = shape ? shape(key, platformResults[key]) : { ...platformResults[key], ...changes };
+  }
+  return {
+    ...image,
+    platformResults,
+    // A single platform's copy is what the results show and export
+    result: keys.length === 1 ? { ...image.result, ...platformResults[keys[0]] } : { ...image.result, ...changes },
+  };
+}
+
+// Count the words in a title or description
+export function countWords(text: string): number {
+  const trimmed = text.trim();
+  return trimmed ? trimmed.split(/\s+/).length : 0;
+}
+
 // Generate a unique ID for each image
 export function generateId(): string {
   return Math.random().toString(36).substring(2, 9);
@@ -29,116 +122,48 @@ export function createImagePreview(file: File): Promise<string> {
   });
 }
 
-// Format for CSV export
-export function formatImagesAsCSV(images: ProcessedImage[], isFreepikOnly: boolean = false, isShutterstock: boolean = false, isAdobeStock: boolean = false): string {
-  // Determine headers based on platform selection
-  let headers;
-  
-  // Video-specific CSV header
-  const videoHeaders = ['"Filename"', '"Title"', '"Keywords"', '"Category"'];
-  
-  if (isFreepikOnly) {
-    headers = ['"File name"', '"Title"', '"Keywords"', '"Prompt"', '"Base-Model"'];
-  } else if (isShutterstock) {
-    headers = ['"Filename"', '"Description"', '"Keywords"', '"Categories"'];
-  } else if (isAdobeStock) {
-    headers = ['"Filename"', '"Title"', '"Keywords"', '"Category"'];
-  } else {
-    headers = ['"Filename"', '"Title"', '"Description"', '"Keywords"'];
-  }
-    
-  const csvContent = [
-    headers.join(isFreepikOnly ? ';' : ','),
-    ...images
-      .filter(img => img.status === 'complete' && img.result)
-      .map(img => {
-        // Detect if this is a video file
-        const isVideo = img.file.type.startsWith('video/');
-        const cleanTitle = img.result?.title ? removeSymbolsFromTitle(img.result.title) : '';
-        if (isVideo) {
-          // Find the matched Adobe Stock category index (1-based)
-          let categoryIndex = '';
-          if (img.result?.categories && img.result.categories.length > 0) {
-            const cat = img.result.categories[0];
-            const idx = adobeStockCategories.findIndex(c => c === cat);
-            if (idx !== -1) categoryIndex = (idx + 1).toString();
-          }
-          return [
-            `"${img.file.name}"`,
-            `"${cleanTitle}"`,
-            `"${img.result?.keywords?.join(',') || ''}"`,
-            `"${categoryIndex}"`
-          ].join(',');
-        }
-        // ... existing code for images ...
-        if (isFreepikOnly) {
-          return [
-            `"${img.file.name}"`,
-            `"${cleanTitle}"`,
-            `"${img.result?.keywords?.join(', ') || ''}"`,
-            `"${img.result?.prompt || ''}"`,
-            `"leonardo"`,
-          ].join(';');
-        } else if (isShutterstock) {
-          return [
-            `"${img.file.name}"`,
-            `"${img.result?.description || ''}"`,
-            `"${img.result?.keywords?.join(',') || ''}"`,
-            `"${img.result?.categories?.join(',') || ''}"`,
-          ].join(',');
-        } else if (isAdobeStock) {
-          return [
-            `"${img.file.name}"`,
-            `"${cleanTitle}"`,
-            `"${img.result?.keywords?.join(', ') || ''}"`,
-            `"${img.result?.categories?.join(',') || ''}"`,
-          ].join(',');
-        } else {
-          return [
-            `"${img.file.name}"`,
-            `"${cleanTitle}"`,
-            `"${img.result?.description || ''}"`,
-            `"${img.result?.keywords?.join(', ') || ''}"`,
-          ].join(',');
-        }
-      })
-  ].join('\n');
-
-  return csvContent;
-}
-
 // Function to remove symbols from title
 export function removeSymbolsFromTitle(title: string): string {
   // Remove symbols but keep alphanumeric, spaces, and basic punctuation like commas and periods
   return title.replace(/[^\w\s.,()-]/g, '');
 }
 
-// Export data to CSV file
-export function downloadCSV(csvContent: string, filename = 'image-metadata.csv', platform?: string): void {
-  // Create custom folder name based on platform
-  let folderName = 'metadata';
-  
+// Folder name used for a platform's export
+export function getPlatformFolderName(platform?: string): string {
   if (platform === 'AdobeStock') {
-    folderName = 'AdobeStock-MetaData By Pikshine ✨';
+    return 'AdobeStock-MetaData By Pikshine ✨';
   } else if (platform === 'Freepik') {
-    folderName = 'Freepik-MetaData By Pikshine';
+    return 'Freepik-MetaData By Pikshine';
   } else if (platform) {
-    folderName = `${platform}-MetaData`;
+    return `${platform}-MetaData`;
   }
-  
-  const customFilename = `${folderName}/${filename}`;
-  
-  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+  return 'metadata';
+}
+
+// Save a blob through a temporary download link
+export function downloadBlob(blob: Blob, filename: string): void {
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
   
   link.setAttribute('href', url);
-  link.setAttribute('download', customFilename);
+  link.setAttribute('download', filename);
   link.style.display = 'none';
   
   document.body.appendChild(link);
   link.click();
   document.body.removeChild(link);
+  
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Export data to CSV file
+export function downloadCSV(csvContent: string, filename = 'image-metadata.csv', platform?: string): void {
+  // Create custom folder name based on platform
+  const customFilename = `${getPlatformFolderName(platform)}/${filename}`;
+  
+  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+  downloadBlob(blob, customFilename);
 }
 
 // Get file size in human-readable format
@@ -183,41 +208,6 @@ export function isValidFileSize(file: File, maxSizeGB = 10): boolean {
   return file.size <= maxSizeBytes;
 }
 
-// Shutterstock Categories
-export const shutterstockCategories = [
-  'Abstract', 'Animals/Wildlife', 'Arts', 'Backgrounds/Textures', 
-  'Beauty/Fashion', 'Buildings/Landmarks', 'Business/Finance', 
-  'Celebrities', 'Education', 'Food and drink', 'Healthcare/Medical', 
-  'Holidays', 'Industrial', 'Interiors', 'Miscellaneous', 'Nature', 
-  'Objects', 'Parks/Outdoor', 'People', 'Religion', 'Science', 
-  'Signs/Symbols', 'Sports/Recreation', 'Technology', 'Transportation', 'Vintage'
-];
-
-// Adobe Stock Categories
-export const adobeStockCategories = [
-  'Animals', 
-  'Buildings and Architecture', 
-  'Business', 
-  'Drinks', 
-  'The Environment', 
-  'States of Mind', 
-  'Food', 
-  'Graphic Resources', 
-  'Hobbies and Leisure', 
-  'Industry', 
-  'Landscapes', 
-  'Lifestyle', 
-  'People', 
-  'Plants and Flowers', 
-  'Culture and Religion', 
-  'Science', 
-  'Social Issues', 
-  'Sports', 
-  'Technology', 
-  'Transport', 
-  'Travel'
-];
-
 // Helper to determine the best categories for an image based on title/description and keywords
 export function suggestCategoriesForAdobeStock(title: string, keywords: string[]): string[] {
   // Combine the title and keywords for analysis
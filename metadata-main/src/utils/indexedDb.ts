@@ -0,0 +1,42 @@
+/**
+ * Promise wrappers around IndexedDB requests and transactions
+ */
+
+/**
+ * Opens a database, creating its stores on first use
+ * A failed open isn't cached, so a later call can retry (e.g. after leaving private browsing).
+ * @param upgrade - Creates the object stores when the database is new or its version changes
+ */
+export function createDatabaseOpener(name: string, version: number, upgrade: (db: IDBDatabase) => void): () => Promise<IDBDatabase> {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  return () => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(name, version);
+        request.onupgradeneeded = () => upgrade(request.result);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      dbPromise.catch(() => {
+        dbPromise = null;
+      });
+    }
+    return dbPromise;
+  };
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
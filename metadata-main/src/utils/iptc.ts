@@ -0,0 +1,178 @@
+import { concatBytes, latin1Decoder, readUint16BE, readUint32BE, startsWithAscii, uint16BE, uint32BE, utf8Truncate } from './binary';
+import { EmbeddedMetadata } from './xmp';
+
+/**
+ * IPTC-IIM records and the Photoshop image resource blocks that carry them
+ */
+
+export const PHOTOSHOP_SIGNATURE = 'Photoshop 3.0\0';
+
+// Image resource ids
+export const IPTC_RESOURCE_ID = 0x0404;
+const IPTC_DIGEST_RESOURCE_ID = 0x0425;
+
+// IIM dataset numbers in the application record (2)
+export const IPTC_TAGS = {
+  recordVersion: 0,
+  objectName: 5,
+  supplementalCategory: 20,
+  keywords: 25,
+  caption: 120,
+} as const;
+
+// Byte limits from the IIM specification
+const MAX_OBJECT_NAME_BYTES = 64;
+const MAX_KEYWORD_BYTES = 64;
+const MAX_CATEGORY_BYTES = 32;
+const MAX_CAPTION_BYTES = 2000;
+
+// ESC % G declares UTF-8 in the envelope record
+const UTF8_CODED_CHARACTER_SET = new Uint8Array([0x1b, 0x25, 0x47]);
+
+export interface PhotoshopResource {
+  id: number;
+  name: Uint8Array;
+  data: Uint8Array;
+}
+
+function dataSet(record: number, tag: number, value: Uint8Array): Uint8Array {
+  return concatBytes([new Uint8Array([0x1c, record, tag]), uint16BE(value.length), value]);
+}
+
+/**
+ * Builds IPTC-IIM datasets for the metadata
+ * Object Name holds the title, Caption/Abstract the description, and each keyword
+ * and category is a repeated Keywords or Supplemental Category dataset.
+ */
+export function buildIptcRecords(metadata: EmbeddedMetadata): Uint8Array {
+  const sets = [
+    dataSet(1, 90, UTF8_CODED_CHARACTER_SET),
+    dataSet(2, IPTC_TAGS.recordVersion, uint16BE(4)),
+  ];
+
+  if (metadata.title) {
+    sets.push(dataSet(2, IPTC_TAGS.objectName, utf8Truncate(metadata.title, MAX_OBJECT_NAME_BYTES)));
+  }
+  for (const category of metadata.categories || []) {
+    sets.push(dataSet(2, IPTC_TAGS.supplementalCategory, utf8Truncate(category, MAX_CATEGORY_BYTES)));
+  }
+  for (const keyword of metadata.keywords) {
+    sets.push(dataSet(2, IPTC_TAGS.keywords, utf8Truncate(keyword, MAX_KEYWORD_BYTES)));
+  }
+  if (metadata.description) {
+    sets.push(dataSet(2, IPTC_TAGS.caption, utf8Truncate(metadata.description, MAX_CAPTION_BYTES)));
+  }
+
+  return concatBytes(sets);
+}
+
+// Decode an IIM value; files without a UTF-8 declaration are usually Latin-1
+function decodeIptcValue(value: Uint8Array, utf8: boolean): string {
+  if (utf8) {
+    return new TextDecoder().decode(value).trim();
+  }
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(value).trim();
+  } catch {
+    return latin1Decoder.decode(value).trim();
+  }
+}
+
+/**
+ * Reads title, description, keywords and categories from IPTC-IIM datasets
+ * Returns null when none of them are present.
+ */
+export function parseIptcRecords(bytes: Uint8Array): EmbeddedMetadata | null {
+  const metadata: EmbeddedMetadata = { title: '', description: '', keywords: [], categories: [] };
+  let utf8 = false;
+  let found = false;
+  let offset = 0;
+
+  while (offset + 5 <= bytes.length && bytes[offset] === 0x1c) {
+    const record = bytes[offset + 1];
+    const tag = bytes[offset + 2];
+    const length = readUint16BE(bytes, offset + 3);
+    // Extended datasets (length over 32767) aren't used for text fields
+    if (length & 0x8000) break;
+
+    const value = bytes.slice(offset + 5, offset + 5 + length);
+    offset += 5 + length;
+
+    if (record === 1 && tag === 90) {
+      utf8 = startsWithAscii(value, '\x1b%G');
+      continue;
+    }
+    if (record !== 2) continue;
+
+    const text = decodeIptcValue(value, utf8);
+    if (!text) continue;
+    switch (tag) {
+      case IPTC_TAGS.objectName:
+        metadata.title = text;
+        break;
+      case IPTC_TAGS.caption:
+        metadata.description = text;
+        break;
+      case IPTC_TAGS.keywords:
+        metadata.keywords.push(text);
+        break;
+      case IPTC_TAGS.supplementalCategory:
+        metadata.categories.push(text);
+        break;
+      default:
+        continue;
+    }
+    found = true;
+  }
+
+  return found ? metadata : null;
+}
+
+/**
+ * Splits a block of Photoshop image resources ("8BIM" entries)
+ * @param bytes - The resources, without the "Photoshop 3.0" signature
+ */
+export function parsePhotoshopResources(bytes: Uint8Array): PhotoshopResource[] {
+  const resources: PhotoshopResource[] = [];
+  let offset = 0;
+
+  while (offset + 12 <= bytes.length && startsWithAscii(bytes, '8BIM', offset)) {
+    const id = readUint16BE(bytes, offset + 4);
+    // Pascal string name, padded to an even length including the length byte
+    const nameLength = bytes[offset + 6];
+    const namePadded = nameLength + 1 + ((nameLength + 1) % 2);
+    const name = bytes.slice(offset + 6, offset + 6 + namePadded);
+    const sizeOffset = offset + 6 + namePadded;
+    if (sizeOffset + 4 > bytes.length) break;
+
+    const size = readUint32BE(bytes, sizeOffset);
+    const dataStart = sizeOffset + 4;
+    resources.push({ id, name, data: bytes.slice(dataStart, dataStart + size) });
+    offset = dataStart + size + (size % 2);
+  }
+
+  return resources;
+}
+
+export function buildPhotoshopResources(resources: PhotoshopResource[]): Uint8Array {
+  return concatBytes(resources.flatMap(resource => [
+    new Uint8Array([0x38, 0x42, 0x49, 0x4d]), // 8BIM
+    uint16BE(resource.id),
+    resource.name.length > 0 ? resource.name : new Uint8Array([0, 0]),
+    uint32BE(resource.data.length),
+    resource.data,
+    resource.data.length % 2 ? new Uint8Array([0]) : new Uint8Array(0),
+  ]));
+}
+
+/**
+ * Replaces the IPTC block in a set of Photoshop resources, keeping the others
+ * The IPTC digest is dropped so readers don't flag the new block as modified elsewhere.
+ * @param existing - Current resources, if the file had any
+ * @param iptc - The new IPTC-IIM datasets
+ */
+export function withIptcResource(existing: Uint8Array | null, iptc: Uint8Array): Uint8Array {
+  const kept = (existing ? parsePhotoshopResources(existing) : [])
+    .filter(resource => resource.id !== IPTC_RESOURCE_ID && resource.id !== IPTC_DIGEST_RESOURCE_ID);
+  return buildPhotoshopResources([...kept, { id: IPTC_RESOURCE_ID, name: new Uint8Array(0), data: iptc }]);
+}
@@ -0,0 +1,195 @@
+import { KeywordScores, rankKeywords } from './keywordRanking';
+
+/**
+ * Keyword cleanup applied to model output
+ *
+ * Each step can be switched off in the sidebar. Steps run in order: normalize,
+ * phrase rules, stop words, banned terms, dedupe (merging singular and plural
+ * forms), ranking by relevance, then topping up or trimming to the keyword range.
+ */
+
+// How a platform wants multi-word keywords: as phrases, one word each, or run together
+export type KeywordPhraseRule = 'keep' | 'split' | 'join';
+
+export interface KeywordPipelineSettings {
+  // Lowercase, trim and strip stray punctuation
+  normalize: boolean;
+  // Treat "cat" and "cats" as the same keyword
+  mergeInflections: boolean;
+  removeStopWords: boolean;
+  removeBannedTerms: boolean;
+  bannedTerms: string[];
+  // Split or join phrases for platforms that ask for it
+  applyPhraseRules: boolean;
+  // Most relevant keywords first, so trimming drops the least relevant
+  rankByRelevance: boolean;
+  // Top up from the title and description, or trim, to the keyword range
+  enforceCount: boolean;
+}
+
+export const DEFAULT_KEYWORD_PIPELINE: KeywordPipelineSettings = {
+  normalize: true,
+  mergeInflections: true,
+  removeStopWords: true,
+  removeBannedTerms: true,
+  bannedTerms: [],
+  applyPhraseRules: true,
+  rankByRelevance: true,
+  enforceCount: true,
+};
+
+export interface KeywordPipelineOptions {
+  minKeywords: number;
+  maxKeywords: number;
+  phraseRule?: KeywordPhraseRule;
+  // The title, then other text such as the description; used to rank keywords
+  // without a score and to top up when there are too few
+  context?: string[];
+  // Relevance scores returned by the model, keyed by its lowercase keywords
+  scores?: KeywordScores;
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have',
+  'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'over', 'that', 'the', 'their',
+  'there', 'these', 'this', 'those', 'to', 'under', 'was', 'were', 'while', 'with',
+]);
+
+// Plurals that don't follow the suffix rules, and words that only look plural
+const IRREGULAR_SINGULARS: Record<string, string> = {
+  people: 'person',
+  children: 'child',
+  men: 'man',
+  women: 'woman',
+  mice: 'mouse',
+  feet: 'foot',
+  teeth: 'tooth',
+  geese: 'goose',
+};
+const INVARIANT_WORDS = new Set(['news', 'series', 'species', 'physics', 'mathematics', 'economics', 'glasses', 'jeans', 'scissors']);
+
+// Leading and trailing characters that aren't letters or digits
+const EDGE_PUNCTUATION = /^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu;
+
+/**
+ * Rough English singular of a word, used only to compare keywords
+ */
+export function singularize(word: string): string {
+  const lower = word.toLowerCase();
+  if (IRREGULAR_SINGULARS[lower]) return IRREGULAR_SINGULARS[lower];
+  if (INVARIANT_WORDS.has(lower) || lower.length <= 3) return lower;
+  if (lower.endsWith('ies') && lower.length > 4) return `${lower.slice(0, -3)}y`;
+  if (/(ss|x|z|ch|sh)es$/.test(lower)) return lower.slice(0, -2);
+  if (lower.endsWith('s') && !/(ss|us|is)$/.test(lower)) return lower.slice(0, -1);
+  return lower;
+}
+
+function isStopWord(word: string): boolean {
+  return STOP_WORDS.has(word.toLowerCase());
+}
+
+function normalizeKeyword(keyword: string): string {
+  return keyword.toLowerCase().replace(/\s+/g, ' ').replace(EDGE_PUNCTUATION, '').trim();
+}
+
+function applyPhraseRule(keywords: string[], rule: KeywordPhraseRule): string[] {
+  switch (rule) {
+    case 'split':
+      return keywords.flatMap(keyword => keyword.split(/\s+/));
+    case 'join':
+      return keywords.map(keyword => keyword.replace(/\s+/g, ''));
+    default:
+      return keywords;
+  }
+}
+
+// Drop stop words on their own, and articles or prepositions at either end of a phrase
+function removeStopWords(keywords: string[]): string[] {
+  return keywords
+    .map(keyword => {
+      const words = keyword.split(/\s+/);
+      while (words.length > 1 && isStopWord(words[0])) words.shift();
+      while (words.length > 1 && isStopWord(words[words.length - 1])) words.pop();
+      return words.join(' ');
+    })
+    .filter(keyword => !isStopWord(keyword));
+}
+
+// A keyword is banned if it is a banned term or contains one as whole words
+function removeBannedTerms(keywords: string[], bannedTerms: string[]): string[] {
+  const banned = bannedTerms.map(term => normalizeKeyword(term)).filter(Boolean);
+  if (banned.length === 0) return keywords;
+  return keywords.filter(keyword => {
+    const padded = ` ${keyword.toLowerCase()} `;
+    return !banned.some(term => padded.includes(` ${term} `));
+  });
+}
+
+function dedupe(keywords: string[], mergeInflections: boolean): string[] {
+  const seen = new Set<string>();
+  return keywords.filter(keyword => {
+    const words = keyword.toLowerCase().split(/\s+/);
+    const key = (mergeInflections ? words.map(singularize) : words).join(' ');
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// Re-key the model's scores by the keywords cleanup turns its keywords into, so a keyword
+// that was lowercased, split or trimmed keeps its score; merged keywords keep the highest
+function carryScores(scores: KeywordScores, clean: (list: string[]) => string[]): KeywordScores {
+  const carried: KeywordScores = {};
+  for (const [keyword, score] of Object.entries(scores)) {
+    for (const cleaned of clean([keyword])) {
+      const key = cleaned.toLowerCase();
+      carried[key] = Math.max(carried[key] ?? -Infinity, score);
+    }
+  }
+  return carried;
+}
+
+/**
+ * Runs keywords through the enabled cleanup steps
+ * Empty keywords are always dropped.
+ * @param keywords - Keywords as returned by the model
+ * @param settings - Which steps run
+ * @param options - The keyword range, the platform's phrase rule, scores and context text
+ */
+export function processKeywords(
+  keywords: string[],
+  settings: KeywordPipelineSettings,
+  options: KeywordPipelineOptions
+): string[] {
+  const clean = (list: string[]): string[] => {
+    let result = list.map(keyword => settings.normalize ? normalizeKeyword(keyword) : keyword.trim());
+    if (settings.applyPhraseRules && options.phraseRule) {
+      result = applyPhraseRule(result, options.phraseRule);
+    }
+    if (settings.removeStopWords) {
+      result = removeStopWords(result);
+    }
+    if (settings.removeBannedTerms) {
+      result = removeBannedTerms(result, settings.bannedTerms);
+    }
+    return result.filter(Boolean);
+  };
+
+  let result = dedupe(clean(keywords), settings.mergeInflections);
+
+  if (settings.rankByRelevance) {
+    result = rankKeywords(result, carryScores(options.scores || {}, clean), options.context || []);
+  }
+
+  if (settings.enforceCount) {
+    if (result.length < options.minKeywords && options.context) {
+      // Single words from the title and description, in the order they appear
+      const words = options.context.join(' ').split(/\s+/).filter(word => word.length > 2);
+      const candidates = clean(words.map(normalizeKeyword));
+      result = dedupe([...result, ...candidates], settings.mergeInflections).slice(0, Math.max(result.length, options.minKeywords));
+    }
+    result = result.slice(0, options.maxKeywords);
+  }
+
+  return result;
+}
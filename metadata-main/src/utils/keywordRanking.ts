@@ -0,0 +1,73 @@
+/**
+ * Keyword order by relevance, and keywords pinned to the top by the user
+ *
+ * Some sites weigh the first keywords most (Adobe Stock the first ten), so the
+ * order of the list matters as much as what is in it.
+ */
+
+// Relevance scores from the model, keyed by lowercase keyword
+export type KeywordScores = Record<string, number>;
+
+/**
+ * Pairs keywords with the scores the model returned alongside them
+ * Scores are ignored unless there is one number per keyword.
+ */
+export function getKeywordScores(keywords: string[] | undefined, scores: unknown): KeywordScores {
+  if (!keywords || !Array.isArray(scores) || scores.length !== keywords.length) return {};
+  if (!scores.every(score => typeof score === 'number' && !Number.isNaN(score))) return {};
+  return Object.fromEntries(keywords.map((keyword, index) => [keyword.trim().toLowerCase(), scores[index] as number]));
+}
+
+// Highest score estimateRelevance gives
+const MAX_ESTIMATE = 80;
+
+// Score from 0 to MAX_ESTIMATE from where the keyword appears: words used in the
+// title count most, then the description, then the model's own order
+function estimateRelevance(keyword: string, index: number, total: number, context: string[]): number {
+  const words = keyword.toLowerCase().split(/\s+/);
+  const [title = '', ...rest] = context.map(text => ` ${text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ')} `);
+  const inText = (text: string) => words.every(word => text.includes(` ${word} `));
+
+  let score = 30 * (1 - index / Math.max(total, 1));
+  if (inText(title)) score += 50;
+  else if (rest.some(inText)) score += 25;
+  return score;
+}
+
+/**
+ * Orders keywords from most to least relevant
+ * Keywords without a model score get an estimate, stretched over the range of the
+ * model's scores so the two compare; ties keep their order.
+ * @param scores - Keyed by the keywords as given here, lowercased
+ * @param context - The title first, then other text such as the description
+ */
+export function rankKeywords(keywords: string[], scores: KeywordScores, context: string[]): string[] {
+  const modelScores = Object.values(scores);
+  const low = modelScores.length > 0 ? Math.min(...modelScores) : 0;
+  const high = modelScores.length > 0 ? Math.max(...modelScores) : MAX_ESTIMATE;
+  const estimate = (keyword: string, index: number) =>
+    low + (estimateRelevance(keyword, index, keywords.length, context) / MAX_ESTIMATE) * (high - low);
+
+  return keywords
+    .map((keyword, index) => ({
+      keyword,
+      index,
+      score: scores[keyword.toLowerCase()] ?? estimate(keyword, index),
+    }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ keyword }) => keyword);
+}
+
+/**
+ * Moves pinned keywords to the front, in the order they were pinned
+ * Pins for keywords no longer in the list are dropped.
+ */
+export function applyPinnedKeywords(keywords: string[], pinned: string[] = []): { keywords: string[]; pinned: string[] } {
+  const present = new Set(keywords);
+  const kept = pinned.filter(keyword => present.has(keyword));
+  const pinnedSet = new Set(kept);
+  return {
+    keywords: [...kept, ...keywords.filter(keyword => !pinnedSet.has(keyword))],
+    pinned: kept,
+  };
+}
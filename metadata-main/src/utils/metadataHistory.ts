@@ -0,0 +1,82 @@
+import { ImageMetadata, ProcessedImage } from './imageHelpers';
+
+/**
+ * Per-image version history of results, with undo and redo
+ *
+ * The history lives on ProcessedImage so it travels with JSON exports and saved sessions.
+ */
+
+export type VersionSource = 'generated' | 'edited' | 'regenerated' | 'imported' | 'cached';
+
+export interface MetadataVersion {
+  source: VersionSource;
+  createdAt: string;
+  result: ImageMetadata;
+  platformResults?: ProcessedImage['platformResults'];
+}
+
+export interface KeywordDiff {
+  added: string[];
+  removed: string[];
+  kept: string[];
+}
+
+// Older versions are dropped past this count
+const MAX_VERSIONS = 50;
+
+/**
+ * Saves the image's current results as a new version
+ * Versions after the current one (undone changes) are discarded.
+ */
+export function recordVersion(image: ProcessedImage, source: VersionSource): ProcessedImage {
+  if (!image.result) return image;
+
+  const kept = (image.history || []).slice(0, (image.historyIndex ?? -1) + 1);
+  const history = [...kept, {
+    source,
+    createdAt: new Date().toISOString(),
+    result: image.result,
+    platformResults: image.platformResults,
+  }].slice(-MAX_VERSIONS);
+
+  return { ...image, history, historyIndex: history.length - 1 };
+}
+
+// Make a stored version the current results
+export function restoreVersion(image: ProcessedImage, index: number): ProcessedImage {
+  const version = image.history?.[index];
+  if (!version) return image;
+  return {
+    ...image,
+    result: version.result,
+    platformResults: version.platformResults,
+    historyIndex: index,
+  };
+}
+
+export function canUndo(image: ProcessedImage): boolean {
+  return (image.historyIndex ?? 0) > 0;
+}
+
+export function canRedo(image: ProcessedImage): boolean {
+  return image.history !== undefined && (image.historyIndex ?? 0) < image.history.length - 1;
+}
+
+export function undo(image: ProcessedImage): ProcessedImage {
+  return canUndo(image) ? restoreVersion(image, image.historyIndex - 1) : image;
+}
+
+export function redo(image: ProcessedImage): ProcessedImage {
+  return canRedo(image) ? restoreVersion(image, image.historyIndex + 1) : image;
+}
+
+// Keywords added and removed going from one version to another, ignoring case
+export function diffKeywords(from: string[], to: string[]): KeywordDiff {
+  const fromSet = new Set(from.map(keyword => keyword.toLowerCase()));
+  const toSet = new Set(to.map(keyword => keyword.toLowerCase()));
+  return {
+    added: to.filter(keyword => !fromSet.has(keyword.toLowerCase())),
+    removed: from.filter(keyword => !toSet.has(keyword.toLowerCase())),
+    kept: to.filter(keyword => fromSet.has(keyword.toLowerCase())),
+  };
+}
@@ -0,0 +1,233 @@
+import { getPlatformDefinition, Platform, PlatformDefinition } from './platformDefinitions';
+
+/**
+ * Response schemas for structured metadata output.
+ *
+ * The shapes use the OpenAPI subset that Gemini accepts as `responseSchema`,
+ * so the same object is sent with the request and used to check the reply.
+ */
+
+export type SchemaType = 'OBJECT' | 'ARRAY' | 'STRING' | 'NUMBER' | 'INTEGER' | 'BOOLEAN';
+
+export interface ResponseSchema {
+  type: SchemaType;
+  description?: string;
+  properties?: Record<string, ResponseSchema>;
+  required?: string[];
+  items?: ResponseSchema;
+  enum?: string[];
+  minItems?: number;
+  maxItems?: number;
+}
+
+const titleField: ResponseSchema = {
+  type: 'STRING',
+  description: 'Descriptive title for stock platforms, without symbols',
+};
+
+const descriptionField: ResponseSchema = {
+  type: 'STRING',
+  description: 'Detailed description of the image',
+};
+
+const promptField: ResponseSchema = {
+  type: 'STRING',
+  description: 'Image generation prompt that recreates this image in 1-2 sentences',
+};
+
+const keywordsField: ResponseSchema = {
+  type: 'ARRAY',
+  description: 'Relevant search keywords, single words or short phrases',
+  items: { type: 'STRING' },
+  minItems: 1,
+};
+
+// Parallel to keywords; used to put the most relevant keywords first
+const keywordScoresField: ResponseSchema = {
+  type: 'ARRAY',
+  description: 'Relevance of each keyword to the image from 0 to 100, in the same order as keywords',
+  items: { type: 'NUMBER' },
+};
+
+function categoriesField(categories: string[], maxItems: number): ResponseSchema {
+  return {
+    type: 'ARRAY',
+    description: `Best matching categories, at most ${maxItems}`,
+    items: { type: 'STRING', enum: categories },
+    maxItems,
+  };
+}
+
+const fieldSchemas: Record<'title' | 'description' | 'keywords' | 'prompt', ResponseSchema> = {
+  title: titleField,
+  description: descriptionField,
+  keywords: keywordsField,
+  prompt: promptField,
+};
+
+// Output shape of one platform, built from the fields its definition lists
+function getPlatformSchema(definition: PlatformDefinition): ResponseSchema {
+  const properties: Record<string, ResponseSchema> = {};
+
+  for (const field of definition.fields) {
+    if (field === 'categories') {
+      if (definition.categories) {
+        properties.categories = categoriesField(definition.categories.list, definition.categories.maxItems);
+      }
+    } else {
+      properties[field] = fieldSchemas[field];
+    }
+    if (field === 'keywords') {
+      properties.keywordScores = keywordScoresField;
+    }
+  }
+
+  return {
+    type: 'OBJECT',
+    properties,
+    // Categories are optional; a fallback is suggested when the model picks none.
+    // Keyword scores are optional too, since not every model returns them
+    required: definition.fields.filter(field => field !== 'categories'),
+  };
+}
+
+// Fields whose allowed values differ per platform
+const platformSpecificFields = ['categories'];
+
+/**
+ * Gets the response key of a field for one platform
+ * A combined schema keys platform-specific fields by platform, e.g. `categories_Shutterstock`.
+ */
+export function getPlatformFieldKey(field: string, platform: Platform, platforms: Platform[]): string {
+  return platforms.length > 1 && platformSpecificFields.includes(field) ? `${field}_${platform}` : field;
+}
+
+// Get the response schema for the selected platforms
+export function getMetadataSchema(platforms: Platform[]): ResponseSchema {
+  if (platforms.length === 1) {
+    return getPlatformSchema(getPlatformDefinition(platforms[0]));
+  }
+
+  // Several platforms share one response holding the superset of their fields
+  const properties: Record<string, ResponseSchema> = {};
+  const required = new Set<string>();
+
+  for (const platform of platforms) {
+    const schema = getPlatformSchema(getPlatformDefinition(platform));
+    for (const [field, fieldSchema] of Object.entries(schema.properties || {})) {
+      properties[getPlatformFieldKey(field, platform, platforms)] = fieldSchema;
+    }
+    for (const field of schema.required || []) {
+      required.add(getPlatformFieldKey(field, platform, platforms));
+    }
+  }
+
+  return {
+    type: 'OBJECT',
+    properties,
+    required: Array.from(required),
+  };
+}
+
+// Narrow an object schema to some of its fields, for regenerating them alone
+export function pickSchemaFields(schema: ResponseSchema, fields: string[]): ResponseSchema {
+  return {
+    ...schema,
+    properties: Object.fromEntries(Object.entries(schema.properties || {}).filter(([key]) => fields.includes(key))),
+    required: (schema.required || []).filter(key => fields.includes(key)),
+  };
+}
+
+/**
+ * Checks a parsed value against a response schema
+ * @param value - The parsed JSON value
+ * @param schema - The schema the value should match
+ * @param path - Field path used in messages
+ * @returns A list of problems, empty when the value matches
+ */
+export function validateAgainstSchema(value: unknown, schema: ResponseSchema, path = 'response'): string[] {
+  const issues: string[] = [];
+
+  switch (schema.type) {
+    case 'OBJECT': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push(`${path} must be an object`);
+        break;
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required || []) {
+        if (record[key] === undefined || record[key] === null) {
+          issues.push(`${path}.${key} is missing`);
+        }
+      }
+      for (const [key, fieldSchema] of Object.entries(schema.properties || {})) {
+        if (record[key] !== undefined && record[key] !== null) {
+          issues.push(...validateAgainstSchema(record[key], fieldSchema, `${path}.${key}`));
+        }
+      }
+      break;
+    }
+    case 'ARRAY': {
+      if (!Array.isArray(value)) {
+        issues.push(`${path} must be an array`);
+        break;
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        issues.push(`${path} must have at least ${schema.minItems} item(s)`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        issues.push(`${path} must have at most ${schema.maxItems} item(s)`);
+      }
+      if (schema.items) {
+        value.forEach((item, index) => {
+          issues.push(...validateAgainstSchema(item, schema.items as ResponseSchema, `${path}[${index}]`));
+        });
+      }
+      break;
+    }
+    case 'STRING': {
+      if (typeof value !== 'string') {
+        issues.push(`${path} must be a string`);
+      } else if (value.trim().length === 0) {
+        issues.push(`${path} must not be empty`);
+      } else if (schema.enum && !schema.enum.includes(value)) {
+        issues.push(`${path} must be one of: ${schema.enum.join(', ')}`);
+      }
+      break;
+    }
+    case 'NUMBER':
+    case 'INTEGER': {
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        issues.push(`${path} must be a number`);
+      }
+      break;
+    }
+    case 'BOOLEAN': {
+      if (typeof value !== 'boolean') {
+        issues.push(`${path} must be a boolean`);
+      }
+      break;
+    }
+  }
+
+  return issues;
+}
+
+// Convert to standard JSON Schema for OpenAI-compatible and Ollama endpoints
+export function toJsonSchema(schema: ResponseSchema): Record<string, unknown> {
+  const jsonSchema: Record<string, unknown> = { type: schema.type.toLowerCase() };
+
+  if (schema.description) jsonSchema.description = schema.description;
+  if (schema.enum) jsonSchema.enum = schema.enum;
+  if (schema.minItems !== undefined) jsonSchema.minItems = schema.minItems;
+  if (schema.maxItems !== undefined) jsonSchema.maxItems = schema.maxItems;
+  if (schema.items) jsonSchema.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    jsonSchema.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+    jsonSchema.required = schema.required || [];
+  }
+
+  return jsonSchema;
+}
@@ -0,0 +1,77 @@
+import JSZip from 'jszip';
+import { getPlatformFolderName, getPlatformResult, ProcessedImage } from './imageHelpers';
+import { Platform } from './platformDefinitions';
+import { CsvExportSettings, formatPlatformCSV } from './platformExporters';
+
+/**
+ * ZIP export with one folder per platform holding its CSV and the original files
+ */
+
+const CSV_FILENAME = 'image-metadata.csv';
+
+export interface PackageManifest {
+  generatedAt: string;
+  platforms: {
+    platform: Platform;
+    folder: string;
+    csv: string;
+    files: number;
+  }[];
+  files: {
+    name: string;
+    size: number;
+    type: string;
+  }[];
+  // Images left out because they failed or haven't been processed
+  skipped: string[];
+}
+
+/**
+ * Builds the download package
+ * @param images - All images in the session; only completed ones are packed
+ * @param platforms - One folder is created per platform
+ * @param csvSettings - Line ending and BOM for the CSVs
+ * @param onProgress - Called with the percentage while the archive is written
+ */
+export async function buildExportPackage(
+  images: ProcessedImage[],
+  platforms: Platform[],
+  csvSettings: Partial<CsvExportSettings> = {},
+  onProgress?: (percent: number) => void
+): Promise<Blob> {
+  const zip = new JSZip();
+  const completed = images.filter(img => img.status === 'complete' && img.result);
+
+  const manifest: PackageManifest = {
+    generatedAt: new Date().toISOString(),
+    platforms: [],
+    files: completed.map(img => ({ name: img.file.name, size: img.file.size, type: img.file.type })),
+    skipped: images.filter(img => !completed.includes(img)).map(img => img.file.name),
+  };
+
+  for (const platform of platforms) {
+    const folderName = getPlatformFolderName(platform);
+    const folder = zip.folder(folderName);
+    const platformImages = completed.map(img => ({ ...img, result: getPlatformResult(img, platform) }));
+
+    folder.file(CSV_FILENAME, formatPlatformCSV(platformImages, platform, csvSettings), { compression: 'DEFLATE' });
+    for (const img of completed) {
+      folder.file(img.file.name, img.file);
+    }
+
+    manifest.platforms.push({
+      platform,
+      folder: folderName,
+      csv: `${folderName}/${CSV_FILENAME}`,
+      files: completed.length,
+    });
+  }
+
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2), { compression: 'DEFLATE' });
+
+  // Images and videos are already compressed, so they are stored as-is
+  return zip.generateAsync(
+    { type: 'blob', compression: 'STORE' },
+    metadata => onProgress?.(Math.round(metadata.percent))
+  );
+}
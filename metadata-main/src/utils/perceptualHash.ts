@@ -0,0 +1,108 @@
+import { ProcessedImage } from './imageHelpers';
+
+/**
+ * Perceptual hashes for spotting near-duplicate images
+ *
+ * A dHash compares each pixel of a 9×8 grayscale thumbnail with its right-hand
+ * neighbour. The 64 bits barely change under resizing, recompression or small
+ * edits, so variations of one scene end up a few bits apart.
+ */
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+// Hashes this many bits apart or fewer are treated as the same scene
+export const DUPLICATE_DISTANCE = 10;
+
+/**
+ * Computes a dHash from the RGBA pixels of a 9×8 thumbnail
+ * @returns 16 hex characters
+ */
+export function computeDHash(pixels: Uint8ClampedArray): string {
+  const gray = (index: number) => 0.299 * pixels[index * 4] + 0.587 * pixels[index * 4 + 1] + 0.114 * pixels[index * 4 + 2];
+  let hex = '';
+  let nibble = 0;
+  let bits = 0;
+
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const index = y * HASH_WIDTH + x;
+      nibble = (nibble << 1) | (gray(index) > gray(index + 1) ? 1 : 0);
+      if (++bits === 4) {
+        hex += nibble.toString(16);
+        nibble = 0;
+        bits = 0;
+      }
+    }
+  }
+  return hex;
+}
+
+/**
+ * Hashes an image preview; returns null for videos and previews that can't be drawn
+ */
+export function computePerceptualHash(previewUrl: string): Promise<string | null> {
+  return new Promise(resolve => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = HASH_WIDTH;
+      canvas.height = HASH_HEIGHT;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        resolve(null);
+        return;
+      }
+      context.imageSmoothingQuality = 'high';
+      context.drawImage(img, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+      resolve(computeDHash(context.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT).data));
+    };
+    img.onerror = () => resolve(null);
+    img.src = previewUrl;
+  });
+}
+
+// Number of differing bits between two hashes of the same length
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Groups images whose hashes are within the distance of each other, directly or
+ * through another member of the group
+ * @returns Groups of two or more images, each in batch order
+ */
+export function findDuplicateClusters(images: ProcessedImage[], maxDistance = DUPLICATE_DISTANCE): ProcessedImage[][] {
+  const hashed = images.filter(img => img.perceptualHash);
+  const parent = hashed.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  for (let i = 0; i < hashed.length; i++) {
+    for (let j = i + 1; j < hashed.length; j++) {
+      if (hammingDistance(hashed[i].perceptualHash, hashed[j].perceptualHash) <= maxDistance) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const clusters = new Map<number, ProcessedImage[]>();
+  hashed.forEach((img, index) => {
+    const root = find(index);
+    clusters.set(root, [...(clusters.get(root) || []), img]);
+  });
+  return Array.from(clusters.values()).filter(cluster => cluster.length > 1);
+}
@@ -0,0 +1,481 @@
+import {
+  ImageMetadata,
+  getRelevantFreepikKeywords,
+  suggestCategoriesForAdobeStock,
+  suggestCategoriesForShutterstock
+} from './imageHelpers';
+import { KeywordPhraseRule } from './keywordPipeline';
+
+/**
+ * Declarative platform definitions
+ *
+ * Everything that differs between stock sites lives here: the fields each one
+ * needs, their limits, the category taxonomy and the CSV layout. The prompt,
+ * response schema, results view and CSV export all read from these, and
+ * custom definitions can be loaded from JSON for other marketplaces.
+ */
+
+export type BuiltInPlatform = 'Freepik' | 'AdobeStock' | 'Shutterstock' | 'Vecteezy' | 'Canva' | '123RF' | 'Dreamstime';
+
+// Custom definitions may use any other id; `string & {}` keeps the built-in ids checked and suggested
+export type Platform = BuiltInPlatform | (string & {});
+
+export type MetadataField = 'title' | 'description' | 'keywords' | 'prompt' | 'categories';
+
+export interface FieldLimits {
+  minWords?: number;
+  maxWords?: number;
+  // Characters
+  maxLength?: number;
+  // Keywords per file
+  minItems?: number;
+  maxItems?: number;
+}
+
+export type CsvValueSource =
+  | 'filename'
+  | 'title'
+  | 'description'
+  | 'keywords'
+  | 'prompt'
+  | 'baseModel'
+  // All categories in one column
+  | 'categories'
+  // One category per column, picked by index
+  | 'category'
+  | 'fixed';
+
+export interface CsvColumn {
+  header: string;
+  source: CsvValueSource;
+  // For 'category': which of the categories goes in this column, from 0
+  index?: number;
+  // For 'fixed': the value written in every row
+  value?: string;
+}
+
+export interface PlatformDefinition {
+  id: Platform;
+  name: string;
+  fields: MetadataField[];
+  limits?: Partial<Record<MetadataField, FieldLimits>>;
+  categories?: {
+    list: string[];
+    maxItems: number;
+    // Write category names, or their 1-based position in the list
+    exportAs: 'name' | 'index';
+  };
+  csv: {
+    columns: CsvColumn[];
+    delimiter: string;
+    keywordSeparator: string;
+    categorySeparator?: string;
+  };
+  // How multi-word keywords are written; phrases are kept when not set
+  keywordPhrases?: KeywordPhraseRule;
+  // Number of leading keywords the site weighs most in search
+  topKeywords?: number;
+  // Names the site rejects on top of the shared list in restrictedTerms
+  restrictedTerms?: string[];
+  // Characters the site rejects in text fields, checked by complianceCheck
+  forbiddenCharacters?: string;
+  // Extra instructions added to the prompt
+  promptNotes?: string;
+  // Base model reported for AI-generated content
+  baseModel?: string;
+  // Built-in fallbacks when the model leaves a field short; JSON definitions can't set these
+  suggestKeywords?: (metadata: ImageMetadata) => string[];
+  suggestCategories?: (metadata: ImageMetadata) => string[];
+}
+
+// Shutterstock Categories
+export const shutterstockCategories = [
+  'Abstract', 'Animals/Wildlife', 'Arts', 'Backgrounds/Textures',
+  'Beauty/Fashion', 'Buildings/Landmarks', 'Business/Finance',
+  'Celebrities', 'Education', 'Food and drink', 'Healthcare/Medical',
+  'Holidays', 'Industrial', 'Interiors', 'Miscellaneous', 'Nature',
+  'Objects', 'Parks/Outdoor', 'People', 'Religion', 'Science',
+  'Signs/Symbols', 'Sports/Recreation', 'Technology', 'Transportation', 'Vintage'
+];
+
+// Adobe Stock Categories, in the order of their CSV category numbers
+export const adobeStockCategories = [
+  'Animals',
+  'Buildings and Architecture',
+  'Business',
+  'Drinks',
+  'The Environment',
+  'States of Mind',
+  'Food',
+  'Graphic Resources',
+  'Hobbies and Leisure',
+  'Industry',
+  'Landscapes',
+  'Lifestyle',
+  'People',
+  'Plants and Flowers',
+  'Culture and Religion',
+  'Science',
+  'Social Issues',
+  'Sports',
+  'Technology',
+  'Transport',
+  'Travel'
+];
+
+export const builtInPlatforms: (PlatformDefinition & { id: BuiltInPlatform })[] = [
+  {
+    id: 'Freepik',
+    name: 'Freepik',
+    fields: ['title', 'prompt', 'keywords'],
+    limits: {
+      keywords: { maxItems: 50 }
+    },
+    csv: {
+      columns: [
+        { header: 'File name', source: 'filename' },
+        { header: 'Title', source: 'title' },
+        { header: 'Keywords', source: 'keywords' },
+        { header: 'Prompt', source: 'prompt' },
+        { header: 'Base-Model', source: 'baseModel' }
+      ],
+      delimiter: ';',
+      keywordSeparator: ', '
+    },
+    baseModel: 'leonardo',
+    // Generate keywords from the prompt if not enough keywords provided
+    suggestKeywords: metadata => getRelevantFreepikKeywords(metadata.prompt || '')
+  },
+  {
+    id: 'AdobeStock',
+    name: 'AdobeStock',
+    fields: ['title', 'keywords', 'categories'],
+    limits: {
+      title: { maxLength: 200 },
+      keywords: { maxItems: 49 }
+    },
+    categories: {
+      list: adobeStockCategories,
+      maxItems: 1,
+      exportAs: 'index'
+    },
+    csv: {
+      columns: [
+        { header: 'Filename', source: 'filename' },
+        { header: 'Title', source: 'title' },
+        { header: 'Keywords', source: 'keywords' },
+        { header: 'Category', source: 'category', index: 0 }
+      ],
+      delimiter: ',',
+      keywordSeparator: ', '
+    },
+    topKeywords: 10,
+    suggestCategories: metadata => suggestCategoriesForAdobeStock(metadata.title, metadata.keywords)
+  },
+  {
+    id: 'Shutterstock',
+    name: 'Shutterstock',
+    fields: ['description', 'keywords', 'categories'],
+    limits: {
+      description: { maxLength: 200 },
+      keywords: { minItems: 7, maxItems: 50 }
+    },
+    categories: {
+      list: shutterstockCategories,
+      maxItems: 2,
+      exportAs: 'name'
+    },
+    csv: {
+      columns: [
+        { header: 'Filename', source: 'filename' },
+        { header: 'Description', source: 'description' },
+        { header: 'Keywords', source: 'keywords' },
+        { header: 'Categories', source: 'categories' }
+      ],
+      delimiter: ',',
+      keywordSeparator: ',',
+      categorySeparator: ','
+    },
+    suggestCategories: metadata => suggestCategoriesForShutterstock(metadata.title, metadata.description)
+  },
+  {
+    id: 'Vecteezy',
+    name: 'Vecteezy',
+    fields: ['title', 'description', 'keywords'],
+    limits: {
+      title: { maxLength: 200 },
+      keywords: { maxItems: 50 }
+    },
+    csv: {
+      columns: [
+        { header: 'Filename', source: 'filename' },
+        { header: 'Title', source: 'title' },
+        { header: 'Description', source: 'description' },
+        { header: 'Keywords', source: 'keywords' },
+        { header: 'License', source: 'fixed', value: 'pro' }
+      ],
+      delimiter: ',',
+      keywordSeparator: ','
+    }
+  },
+  {
+    id: 'Canva',
+    name: 'Canva',
+    fields: ['title', 'keywords'],
+    limits: {
+      keywords: { maxItems: 45 }
+    },
+    csv: {
+      columns: [
+        { header: 'Filename', source: 'filename' },
+        { header: 'Title', source: 'title' },
+        { header: 'Keywords', source: 'keywords' }
+      ],
+      delimiter: ',',
+      keywordSeparator: ','
+    },
+    promptNotes: 'Write the title the way a designer would search for this image.'
+  },
+  {
+    id: '123RF',
+    name: '123RF',
+    fields: ['description', 'keywords'],
+    limits: {
+      keywords: { maxItems: 50 }
+    },
+    csv: {
+      columns: [
+        { header: 'oldfilename', source: 'filename' },
+        { header: '123rf_filename', source: 'fixed', value: '' },
+        { header: 'description', source: 'description' },
+        { header: 'keywords', source: 'keywords' },
+        { header: 'country', source: 'fixed', value: '' }
+      ],
+      delimiter: ',',
+      keywordSeparator: ','
+    }
+  },
+  {
+    id: 'Dreamstime',
+    name: 'Dreamstime',
+    fields: ['title', 'description', 'keywords'],
+    limits: {
+      keywords: { maxItems: 80 }
+    },
+    csv: {
+      columns: [
+        { header: 'Filename', source: 'filename' },
+        { header: 'Image Name', source: 'title' },
+        { header: 'Description', source: 'description' },
+        // Dreamstime only accepts its numeric subcategory IDs here, so the columns are left
+        // for the site's uploader to fill rather than written with values it rejects
+        { header: 'Category 1', source: 'fixed', value: '' },
+        { header: 'Category 2', source: 'fixed', value: '' },
+        { header: 'Category 3', source: 'fixed', value: '' },
+        { header: 'keywords', source: 'keywords' },
+        // Licensing defaults: not free, no extended licenses, not editorial
+        { header: 'Free', source: 'fixed', value: '0' },
+        { header: 'W-EL', source: 'fixed', value: '0' },
+        { header: 'P-EL', source: 'fixed', value: '0' },
+        { header: 'SR-EL', source: 'fixed', value: '0' },
+        { header: 'SR-Price', source: 'fixed', value: '0' },
+        { header: 'Editorial', source: 'fixed', value: '0' },
+        { header: 'MR doc Ids', source: 'fixed', value: '' },
+        { header: 'Pr Docs', source: 'fixed', value: '' }
+      ],
+      delimiter: ',',
+      keywordSeparator: ','
+    },
+    // Dreamstime matches searches against single-word keywords
+    keywordPhrases: 'split'
+  }
+];
+
+// Used for platforms without a definition
+const genericDefinition: PlatformDefinition = {
+  id: 'Generic',
+  name: 'Generic',
+  fields: ['title', 'description', 'keywords'],
+  csv: {
+    columns: [
+      { header: 'Filename', source: 'filename' },
+      { header: 'Title', source: 'title' },
+      { header: 'Description', source: 'description' },
+      { header: 'Keywords', source: 'keywords' }
+    ],
+    delimiter: ',',
+    keywordSeparator: ', '
+  }
+};
+
+const CUSTOM_PLATFORMS_KEY = 'custom-platform-definitions';
+
+const metadataFields: MetadataField[] = ['title', 'description', 'keywords', 'prompt', 'categories'];
+const csvSources: CsvValueSource[] = ['filename', 'title', 'description', 'keywords', 'prompt', 'baseModel', 'categories', 'category', 'fixed'];
+const keywordPhraseRules: KeywordPhraseRule[] = ['keep', 'split', 'join'];
+
+let customPlatforms: PlatformDefinition[] | null = null;
+
+function loadCustomPlatforms(): PlatformDefinition[] {
+  if (customPlatforms) {
+    return customPlatforms;
+  }
+  try {
+    const saved = localStorage.getItem(CUSTOM_PLATFORMS_KEY);
+    customPlatforms = saved ? parsePlatformDefinitions(JSON.parse(saved)) : [];
+  } catch (error) {
+    console.error('Error loading custom platform definitions:', error);
+    customPlatforms = [];
+  }
+  return customPlatforms;
+}
+
+function saveCustomPlatforms(definitions: PlatformDefinition[]): void {
+  customPlatforms = definitions;
+  localStorage.setItem(CUSTOM_PLATFORMS_KEY, JSON.stringify(definitions));
+}
+
+// Get every platform: built-in ones first, then custom ones
+export function getPlatformDefinitions(): PlatformDefinition[] {
+  const custom = loadCustomPlatforms();
+  const customIds = new Set(custom.map(definition => definition.id));
+  return [...builtInPlatforms.filter(definition => !customIds.has(definition.id)), ...custom];
+}
+
+// Get the definition for a platform, falling back to the generic layout
+export function getPlatformDefinition(id: Platform): PlatformDefinition {
+  return getPlatformDefinitions().find(definition => definition.id === id) || { ...genericDefinition, id, name: id };
+}
+
+// Check if a platform comes from a loaded JSON definition
+export function isCustomPlatform(id: Platform): boolean {
+  return loadCustomPlatforms().some(definition => definition.id === id);
+}
+
+/**
+ * Adds custom platform definitions, replacing any with the same id
+ * @param definitions - Definitions checked by parsePlatformDefinitions
+ * @returns Every platform after the change
+ */
+export function addCustomPlatforms(definitions: PlatformDefinition[]): PlatformDefinition[] {
+  const ids = new Set(definitions.map(definition => definition.id));
+  saveCustomPlatforms([...loadCustomPlatforms().filter(definition => !ids.has(definition.id)), ...definitions]);
+  return getPlatformDefinitions();
+}
+
+// Remove a custom platform definition
+export function removeCustomPlatform(id: Platform): PlatformDefinition[] {
+  saveCustomPlatforms(loadCustomPlatforms().filter(definition => definition.id !== id));
+  return getPlatformDefinitions();
+}
+
+function isNumberOrUndefined(value: unknown): boolean {
+  return value === undefined || (typeof value === 'number' && value >= 0);
+}
+
+/**
+ * Checks platform definitions loaded from JSON
+ * @param data - A single definition or an array of them
+ * @returns The definitions, without any function fields
+ * @throws Error describing the first problem found
+ */
+export function parsePlatformDefinitions(data: unknown): PlatformDefinition[] {
+  const list = Array.isArray(data) ? data : [data];
+
+  return list.map((item, position) => {
+    const label = `Platform ${position + 1}`;
+    if (typeof item !== 'object' || item === null) {
+      throw new Error(`${label} must be an object`);
+    }
+    const definition = item as Record<string, unknown>;
+
+    if (typeof definition.id !== 'string' || !definition.id.trim()) {
+      throw new Error(`${label} needs an "id"`);
+    }
+    const name = typeof definition.name === 'string' && definition.name.trim() ? definition.name : definition.id;
+
+    const fields = definition.fields;
+    if (!Array.isArray(fields) || fields.length === 0 || !fields.every(field => metadataFields.includes(field))) {
+      throw new Error(`${name}: "fields" must list some of ${metadataFields.join(', ')}`);
+    }
+
+    const limits = (definition.limits || {}) as Record<string, Record<string, unknown>>;
+    for (const [field, fieldLimits] of Object.entries(limits)) {
+      if (!metadataFields.includes(field as MetadataField) || typeof fieldLimits !== 'object' || fieldLimits === null) {
+        throw new Error(`${name}: unknown limits for "${field}"`);
+      }
+      if (!['minWords', 'maxWords', 'maxLength', 'minItems', 'maxItems'].every(key => isNumberOrUndefined(fieldLimits[key]))) {
+        throw new Error(`${name}: limits for "${field}" must be positive numbers`);
+      }
+    }
+
+    const categories = definition.categories as PlatformDefinition['categories'] | undefined;
+    if (categories !== undefined) {
+      if (
+        !Array.isArray(categories.list) ||
+        !categories.list.every(category => typeof category === 'string') ||
+        typeof categories.maxItems !== 'number' ||
+        !['name', 'index'].includes(categories.exportAs)
+      ) {
+        throw new Error(`${name}: "categories" needs "list", "maxItems" and "exportAs" ("name" or "index")`);
+      }
+    }
+    if (fields.includes('categories') && !categories) {
+      throw new Error(`${name}: the "categories" field needs a "categories" list`);
+    }
+
+    const csv = definition.csv as PlatformDefinition['csv'] | undefined;
+    if (!csv || !Array.isArray(csv.columns) || csv.columns.length === 0) {
+      throw new Error(`${name}: "csv.columns" must list at least one column`);
+    }
+    for (const column of csv.columns) {
+      if (typeof column?.header !== 'string' || !csvSources.includes(column.source)) {
+        throw new Error(`${name}: every CSV column needs a "header" and a "source" (${csvSources.join(', ')})`);
+      }
+    }
+
+    return {
+      id: definition.id,
+      name,
+      fields: fields as MetadataField[],
+      limits: limits as PlatformDefinition['limits'],
+      categories,
+      csv: {
+        columns: csv.columns,
+        delimiter: typeof csv.delimiter === 'string' ? csv.delimiter : ',',
+        keywordSeparator: typeof csv.keywordSeparator === 'string' ? csv.keywordSeparator : ',',
+        categorySeparator: typeof csv.categorySeparator === 'string' ? csv.categorySeparator : undefined
+      },
+      keywordPhrases: keywordPhraseRules.includes(definition.keywordPhrases as KeywordPhraseRule)
+        ? definition.keywordPhrases as KeywordPhraseRule
+        : undefined,
+      topKeywords: typeof definition.topKeywords === 'number' && definition.topKeywords > 0 ? definition.topKeywords : undefined,
+      restrictedTerms: Array.isArray(definition.restrictedTerms)
+        ? definition.restrictedTerms.filter((term): term is string => typeof term === 'string')
+        : undefined,
+      forbiddenCharacters: typeof definition.forbiddenCharacters === 'string' ? definition.forbiddenCharacters : undefined,
+      promptNotes: typeof definition.promptNotes === 'string' ? definition.promptNotes : undefined,
+      baseModel: typeof definition.baseModel === 'string' ? definition.baseModel : undefined
+    };
+  });
+}
+
+/**
+ * Combines the limits of a field across platforms, keeping the tightest of each
+ * @param definitions - The selected platforms
+ * @param field - The field whose limits are needed
+ */
+export function getFieldLimits(definitions: PlatformDefinition[], field: MetadataField): FieldLimits {
+  const combined: FieldLimits = {};
+  for (const definition of definitions) {
+    if (!definition.fields.includes(field)) continue;
+    const limits = definition.limits?.[field];
+    if (!limits) continue;
+    if (limits.minWords !== undefined) combined.minWords = Math.max(combined.minWords ?? 0, limits.minWords);
+    if (limits.maxWords !== undefined) combined.maxWords = Math.min(combined.maxWords ?? Infinity, limits.maxWords);
+    if (limits.maxLength !== undefined) combined.maxLength = Math.min(combined.maxLength ?? Infinity, limits.maxLength);
+    if (limits.minItems !== undefined) combined.minItems = Math.max(combined.minItems ?? 0, limits.minItems);
+    if (limits.maxItems !== undefined) combined.maxItems = Math.min(combined.maxItems ?? Infinity, limits.maxItems);
+  }
+  return combined;
+}
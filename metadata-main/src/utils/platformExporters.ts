@@ -0,0 +1,80 @@
+import { ProcessedImage, removeSymbolsFromTitle } from './imageHelpers';
+import { CsvOptions, serializeCsv } from './csv';
+import { CsvColumn, getPlatformDefinition, Platform, PlatformDefinition } from './platformDefinitions';
+
+/**
+ * Bulk-upload CSV export driven by the platform definitions
+ */
+
+// Export choices that apply to every platform; the delimiter comes from the definition
+export type CsvExportSettings = Pick<CsvOptions, 'lineEnding' | 'bom'>;
+
+// Write a category as its name or its 1-based number in the platform's list
+function formatCategory(category: string | undefined, definition: PlatformDefinition): string {
+  if (!category) return '';
+  if (definition.categories?.exportAs === 'index') {
+    const index = definition.categories.list.indexOf(category);
+    return index === -1 ? '' : String(index + 1);
+  }
+  return category;
+}
+
+function getColumnValue(column: CsvColumn, image: ProcessedImage, definition: PlatformDefinition): string {
+  const result = image.result;
+  const categories = result?.categories || [];
+
+  switch (column.source) {
+    case 'filename':
+      return image.file.name;
+    case 'title':
+      return result?.title ? removeSymbolsFromTitle(result.title) : '';
+    case 'description':
+      return result?.description || '';
+    case 'keywords': {
+      const maxItems = definition.limits?.keywords?.maxItems;
+      const keywords = result?.keywords || [];
+      return (maxItems ? keywords.slice(0, maxItems) : keywords).join(definition.csv.keywordSeparator);
+    }
+    case 'prompt':
+      return result?.prompt || '';
+    case 'baseModel':
+      return definition.baseModel || result?.baseModel || '';
+    case 'categories':
+      return categories
+        .map(category => formatCategory(category, definition))
+        .filter(Boolean)
+        .join(definition.csv.categorySeparator || ',');
+    case 'category':
+      return formatCategory(categories[column.index ?? 0], definition);
+    case 'fixed':
+      return column.value || '';
+    default:
+      return '';
+  }
+}
+
+// Get the delimiter a platform's CSV is written with
+export function getPlatformDelimiter(platform: Platform): string {
+  return getPlatformDefinition(platform).csv.delimiter;
+}
+
+/**
+ * Formats completed images as the bulk-upload CSV of a platform
+ * @param images - Images whose result holds that platform's metadata
+ * @param platform - The platform whose column layout is used
+ * @param settings - Line ending and BOM
+ */
+export function formatPlatformCSV(
+  images: ProcessedImage[],
+  platform: Platform,
+  settings: Partial<CsvExportSettings> = {}
+): string {
+  const definition = getPlatformDefinition(platform);
+  const { columns, delimiter } = definition.csv;
+
+  const rows = images
+    .filter(img => img.status === 'complete' && img.result)
+    .map(img => columns.map(column => getColumnValue(column, img, definition)));
+
+  return serializeCsv([columns.map(column => column.header), ...rows], { ...settings, delimiter });
+}
@@ -0,0 +1,267 @@
+/**
+ * Rate-limited job queue for model requests
+ */
+
+export interface RateLimitSettings {
+  concurrency: number;
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+}
+
+// Defaults match the Gemini free tier
+export const DEFAULT_RATE_LIMITS: RateLimitSettings = {
+  concurrency: 1,
+  requestsPerMinute: 15,
+  tokensPerMinute: 1000000,
+};
+
+// Errors carrying these fields are retried by the queue
+export interface RetryableFailure {
+  retryable?: boolean;
+  retryAfterMs?: number;
+}
+
+export interface RateLimiter {
+  acquire: (tokens?: number, signal?: AbortSignal) => Promise<void>;
+  penalize: (delayMs: number) => void;
+}
+
+// Pause, resume and cancel handle for a running queue
+export interface QueueControl {
+  readonly signal: AbortSignal;
+  readonly isPaused: boolean;
+  readonly isCancelled: boolean;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  waitUntilResumed: () => Promise<void>;
+}
+
+interface ProcessQueueOptions<T> {
+  concurrency: number;
+  limiter?: RateLimiter;
+  control?: QueueControl;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+  onError?: (item: T, error: unknown) => void;
+}
+
+const MINUTE_MS = 60000;
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Check if an error comes from an aborted fetch or wait
+export function isAbortError(error: unknown): boolean {
+  return (error as Error)?.name === 'AbortError';
+}
+
+/**
+ * Creates a control handle for processQueue
+ * Pausing aborts in-flight requests; those jobs run again once resumed.
+ * Cancelling aborts them and stops the queue.
+ */
+export function createQueueControl(): QueueControl {
+  let abortController = new AbortController();
+  let paused = false;
+  let cancelled = false;
+  let resumeWaiters: (() => void)[] = [];
+
+  const releaseWaiters = () => {
+    resumeWaiters.forEach(resolve => resolve());
+    resumeWaiters = [];
+  };
+
+  return {
+    get signal() {
+      return abortController.signal;
+    },
+    get isPaused() {
+      return paused;
+    },
+    get isCancelled() {
+      return cancelled;
+    },
+    pause: () => {
+      if (paused || cancelled) return;
+      paused = true;
+      abortController.abort();
+    },
+    resume: () => {
+      if (!paused || cancelled) return;
+      paused = false;
+      abortController = new AbortController();
+      releaseWaiters();
+    },
+    cancel: () => {
+      if (cancelled) return;
+      cancelled = true;
+      paused = false;
+      abortController.abort();
+      releaseWaiters();
+    },
+    waitUntilResumed: () => paused
+      ? new Promise<void>(resolve => resumeWaiters.push(resolve))
+      : Promise.resolve(),
+  };
+}
+
+/**
+ * Creates a token-bucket limiter for requests and tokens per minute
+ * @param settings - Requests and tokens allowed per minute
+ * @returns A limiter whose acquire() resolves once the budget allows a request
+ */
+export function createRateLimiter(settings: Pick<RateLimitSettings, 'requestsPerMinute' | 'tokensPerMinute'>): RateLimiter {
+  const requestCapacity = Math.max(1, settings.requestsPerMinute);
+  const tokenCapacity = Math.max(1, settings.tokensPerMinute);
+
+  // Buckets start with a single request so a batch doesn't burst on start
+  let requestBudget = 1;
+  let tokenBudget = tokenCapacity;
+  let lastRefill = Date.now();
+  let blockedUntil = 0;
+  let pending: Promise<void> = Promise.resolve();
+
+  const refill = () => {
+    const now = Date.now();
+    const elapsed = now - lastRefill;
+    lastRefill = now;
+    requestBudget = Math.min(requestCapacity, requestBudget + (elapsed * requestCapacity) / MINUTE_MS);
+    tokenBudget = Math.min(tokenCapacity, tokenBudget + (elapsed * tokenCapacity) / MINUTE_MS);
+  };
+
+  const take = async (tokens: number, signal?: AbortSignal) => {
+    // A single request larger than the bucket is clamped so it can still run
+    const cost = Math.min(tokens, tokenCapacity);
+
+    for (;;) {
+      const blockedFor = blockedUntil - Date.now();
+      if (blockedFor > 0) {
+        await sleep(blockedFor, signal);
+        continue;
+      }
+
+      refill();
+      if (requestBudget >= 1 && tokenBudget >= cost) {
+        requestBudget -= 1;
+        tokenBudget -= cost;
+        return;
+      }
+
+      const requestWait = requestBudget >= 1 ? 0 : ((1 - requestBudget) * MINUTE_MS) / requestCapacity;
+      const tokenWait = tokenBudget >= cost ? 0 : ((cost - tokenBudget) * MINUTE_MS) / tokenCapacity;
+      await sleep(Math.ceil(Math.max(requestWait, tokenWait)), signal);
+    }
+  };
+
+  return {
+    // Callers are served in order so a large request isn't starved by small ones
+    acquire: (tokens = 0, signal?: AbortSignal) => {
+      const next = pending.then(() => take(tokens, signal));
+      pending = next.catch(() => undefined);
+      return next;
+    },
+    // Hold back every request, e.g. after the server answered 429
+    penalize: (delayMs: number) => {
+      blockedUntil = Math.max(blockedUntil, Date.now() + delayMs);
+    },
+  };
+}
+
+// Exponential backoff with jitter, never shorter than the server's Retry-After
+function getRetryDelay(attempt: number, error: unknown, baseDelayMs: number, maxDelayMs: number): number {
+  const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  const jittered = backoff / 2 + Math.random() * (backoff / 2);
+  const retryAfterMs = (error as RetryableFailure)?.retryAfterMs || 0;
+  return Math.max(jittered, retryAfterMs);
+}
+
+function isRetryable(error: unknown): boolean {
+  return !!error && typeof error === 'object' && (error as RetryableFailure).retryable === true;
+}
+
+/**
+ * Runs a worker over every item with limited concurrency, retrying rate-limited failures
+ * @param items - The jobs to run
+ * @param worker - Handles one job; throw a retryable error to have it retried
+ * @param options - Concurrency, limiter, control and backoff settings
+ */
+export async function processQueue<T>(
+  items: T[],
+  worker: (item: T, signal?: AbortSignal) => Promise<void>,
+  options: ProcessQueueOptions<T>
+): Promise<void> {
+  const {
+    concurrency,
+    limiter,
+    control,
+    maxRetries = 5,
+    baseDelayMs = 2000,
+    maxDelayMs = 60000,
+    onRetry,
+    onError,
+  } = options;
+
+  let nextIndex = 0;
+
+  const runJob = async (item: T) => {
+    let attempt = 0;
+
+    for (;;) {
+      await control?.waitUntilResumed();
+      if (control?.isCancelled) return;
+
+      const signal = control?.signal;
+      try {
+        await worker(item, signal);
+        return;
+      } catch (error) {
+        // Interrupted by pause or cancel: wait for resume, then run the job again
+        if (signal?.aborted) continue;
+
+        attempt++;
+        if (!isRetryable(error) || attempt > maxRetries) {
+          throw error;
+        }
+
+        const delayMs = getRetryDelay(attempt, error, baseDelayMs, maxDelayMs);
+        limiter?.penalize(delayMs);
+        onRetry?.(attempt, delayMs, error);
+        await sleep(delayMs, signal).catch(() => undefined);
+      }
+    }
+  };
+
+  const runLane = async () => {
+    while (nextIndex < items.length && !control?.isCancelled) {
+      const item = items[nextIndex++];
+      try {
+        await runJob(item);
+      } catch (error) {
+        // Without an error handler the first failure rejects the whole queue
+        if (!onError) throw error;
+        onError(item, error);
+      }
+    }
+  };
+
+  const laneCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: laneCount }, runLane));
+}
@@ -0,0 +1,211 @@
+import { latin1Decoder, readUint16BE, readUint32BE, startsWithAscii, utf8Decoder } from './binary';
+import { parseIptcRecords, parsePhotoshopResources, IPTC_RESOURCE_ID, PHOTOSHOP_SIGNATURE } from './iptc';
+import { parseXmpPacket, EmbeddedMetadata } from './xmp';
+import {
+  getImageFormat,
+  PNG_IPTC_KEYWORD,
+  PNG_XMP_KEYWORD,
+  TIFF_TAG_IPTC,
+  TIFF_TAG_XMP,
+  XMP_NAMESPACE
+} from './embedMetadata';
+
+/**
+ * Reads metadata already embedded in uploaded images by Lightroom, Bridge or the camera
+ *
+ * XMP takes precedence, then IPTC, then the EXIF description and Windows XP fields.
+ */
+
+// EXIF tags in IFD0 that carry descriptive text
+const EXIF_TAGS = {
+  imageDescription: 0x010e,
+  xpTitle: 0x9c9b,
+  xpComment: 0x9c9c,
+  xpKeywords: 0x9c9e,
+  xpSubject: 0x9c9f,
+} as const;
+
+const TIFF_TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+interface MetadataSources {
+  xmp?: EmbeddedMetadata | null;
+  iptc?: EmbeddedMetadata | null;
+  exif?: EmbeddedMetadata | null;
+}
+
+// Values of the first IFD in a TIFF structure, keyed by tag
+function readTiffIfd(bytes: Uint8Array): Map<number, Uint8Array> {
+  const values = new Map<number, Uint8Array>();
+  const littleEndian = startsWithAscii(bytes, 'II');
+  if (!littleEndian && !startsWithAscii(bytes, 'MM')) return values;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const ifdOffset = view.getUint32(4, littleEndian);
+  if (ifdOffset + 2 > bytes.length) return values;
+
+  const entryCount = view.getUint16(ifdOffset, littleEndian);
+  for (let i = 0; i < entryCount; i++) {
+    const entryOffset = ifdOffset + 2 + i * 12;
+    if (entryOffset + 12 > bytes.length) break;
+
+    const tag = view.getUint16(entryOffset, littleEndian);
+    const type = view.getUint16(entryOffset + 2, littleEndian);
+    const count = view.getUint32(entryOffset + 4, littleEndian);
+    const size = count * (TIFF_TYPE_SIZES[type] || 1);
+    // Values of four bytes or less are stored in the entry itself
+    const valueOffset = size <= 4 ? entryOffset + 8 : view.getUint32(entryOffset + 8, littleEndian);
+    if (valueOffset + size <= bytes.length) {
+      values.set(tag, bytes.slice(valueOffset, valueOffset + size));
+    }
+  }
+  return values;
+}
+
+// Null-terminated ASCII or UTF-8 text
+function decodeText(bytes?: Uint8Array): string {
+  if (!bytes) return '';
+  const end = bytes.indexOf(0);
+  return utf8Decoder.decode(end === -1 ? bytes : bytes.slice(0, end)).trim();
+}
+
+// Windows XP fields are UCS-2 little endian
+function decodeXpText(bytes?: Uint8Array): string {
+  if (!bytes) return '';
+  return new TextDecoder('utf-16le').decode(bytes).replace(/\0+$/, '').trim();
+}
+
+function parseExif(tiff: Uint8Array): EmbeddedMetadata | null {
+  const ifd = readTiffIfd(tiff);
+  const keywords = decodeXpText(ifd.get(EXIF_TAGS.xpKeywords))
+    .split(/[;,]/)
+    .map(keyword => keyword.trim())
+    .filter(Boolean);
+  const metadata: EmbeddedMetadata = {
+    title: decodeXpText(ifd.get(EXIF_TAGS.xpTitle)) || decodeXpText(ifd.get(EXIF_TAGS.xpSubject)),
+    description: decodeText(ifd.get(EXIF_TAGS.imageDescription)) || decodeXpText(ifd.get(EXIF_TAGS.xpComment)),
+    keywords,
+  };
+  return metadata.title || metadata.description || keywords.length > 0 ? metadata : null;
+}
+
+function parseTiffTags(bytes: Uint8Array): MetadataSources {
+  const ifd = readTiffIfd(bytes);
+  const xmp = ifd.get(TIFF_TAG_XMP);
+  const iptc = ifd.get(TIFF_TAG_IPTC);
+  return {
+    xmp: xmp ? parseXmpPacket(utf8Decoder.decode(xmp)) : null,
+    iptc: iptc ? parseIptcRecords(iptc) : null,
+    exif: parseExif(bytes),
+  };
+}
+
+function readJpeg(bytes: Uint8Array): MetadataSources {
+  const sources: MetadataSources = {};
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Metadata segments all come before the image data
+    if (marker === 0xda || marker === 0xd9) break;
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+
+    const length = readUint16BE(bytes, offset + 2);
+    const payload = bytes.slice(offset + 4, offset + 2 + length);
+    offset += 2 + length;
+
+    if (marker === 0xe1 && startsWithAscii(payload, 'Exif\0\0') && !sources.exif) {
+      sources.exif = parseExif(payload.slice(6));
+    } else if (marker === 0xe1 && startsWithAscii(payload, XMP_NAMESPACE) && !sources.xmp) {
+      sources.xmp = parseXmpPacket(utf8Decoder.decode(payload.slice(XMP_NAMESPACE.length)));
+    } else if (marker === 0xed && startsWithAscii(payload, PHOTOSHOP_SIGNATURE)) {
+      const resource = parsePhotoshopResources(payload.slice(PHOTOSHOP_SIGNATURE.length))
+        .find(item => item.id === IPTC_RESOURCE_ID);
+      if (resource) {
+        sources.iptc = parseIptcRecords(resource.data);
+      }
+    }
+  }
+  return sources;
+}
+
+// Raw IIM bytes from an ImageMagick-style hex profile
+function parseRawProfile(text: string): Uint8Array {
+  const [, , , ...lines] = text.split('\n');
+  const hex = lines.join('').replace(/[^0-9a-f]/gi, '');
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+function readPng(bytes: Uint8Array): MetadataSources {
+  const sources: MetadataSources = {};
+  let offset = 8;
+
+  while (offset + 8 <= bytes.length) {
+    const length = readUint32BE(bytes, offset);
+    const type = latin1Decoder.decode(bytes.slice(offset + 4, offset + 8));
+    const data = bytes.slice(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+    if (type === 'IEND') break;
+
+    const keywordEnd = data.indexOf(0);
+    if (keywordEnd === -1) continue;
+    const keyword = latin1Decoder.decode(data.slice(0, keywordEnd));
+
+    if (type === 'iTXt' && keyword === PNG_XMP_KEYWORD && data[keywordEnd + 1] === 0) {
+      // Skip the compression flag, method, language tag and translated keyword
+      let textStart = keywordEnd + 3;
+      textStart = data.indexOf(0, textStart) + 1;
+      textStart = data.indexOf(0, textStart) + 1;
+      sources.xmp = parseXmpPacket(utf8Decoder.decode(data.slice(textStart)));
+    } else if (type === 'tEXt' && keyword === PNG_IPTC_KEYWORD) {
+      sources.iptc = parseIptcRecords(parseRawProfile(latin1Decoder.decode(data.slice(keywordEnd + 1))));
+    } else if (type === 'eXIf') {
+      sources.exif = parseExif(data);
+    }
+  }
+  return sources;
+}
+
+// Field by field, take the first source that has a value
+function mergeSources({ xmp, iptc, exif }: MetadataSources): EmbeddedMetadata | null {
+  const ordered = [xmp, iptc, exif].filter(Boolean);
+  if (ordered.length === 0) return null;
+
+  const metadata: EmbeddedMetadata = {
+    title: ordered.map(source => source.title).find(Boolean) || '',
+    description: ordered.map(source => source.description).find(Boolean) || '',
+    keywords: ordered.map(source => source.keywords).find(keywords => keywords.length > 0) || [],
+    categories: ordered.map(source => source.categories || []).find(categories => categories.length > 0) || [],
+  };
+  return metadata.title || metadata.description || metadata.keywords.length > 0 ? metadata : null;
+}
+
+/**
+ * Reads the title, description, keywords and categories embedded in an image
+ * Returns null for unsupported formats, files without descriptive metadata, or unreadable files.
+ */
+export async function readEmbeddedMetadata(file: File): Promise<EmbeddedMetadata | null> {
+  const format = getImageFormat(file);
+  if (!format) return null;
+
+  try {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    switch (format) {
+      case 'jpeg':
+        return bytes[0] === 0xff && bytes[1] === 0xd8 ? mergeSources(readJpeg(bytes)) : null;
+      case 'png':
+        return startsWithAscii(bytes, '\x89PNG\r\n\x1a\n') ? mergeSources(readPng(bytes)) : null;
+      case 'tiff':
+        return mergeSources(parseTiffTags(bytes));
+    }
+  } catch (error) {
+    console.warn(`Could not read embedded metadata from ${file.name}:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,189 @@
+import { getPlatformResult, ImageMetadata, ProcessedImage, updateImageResult } from './imageHelpers';
+import { getPlatformDefinition, Platform } from './platformDefinitions';
+
+/**
+ * Brand, trademark and artist names that stock sites reject in titles and keywords
+ *
+ * Terms come from the shared list below, each platform definition's own
+ * `restrictedTerms`, the user's list in the sidebar, and names the model found
+ * in an image's metadata. Matching ignores case and treats "Coca-Cola",
+ * "coca cola" and "cocacola" alike.
+ */
+
+export type RestrictedTermKind = 'brand' | 'artist' | 'phrase' | 'custom' | 'detected';
+
+export interface RestrictedTerm {
+  term: string;
+  kind: RestrictedTermKind;
+}
+
+export type CheckedField = 'title' | 'description' | 'keywords';
+
+export interface TermViolation {
+  field: CheckedField;
+  term: RestrictedTerm;
+  // The text as written in the field
+  match: string;
+  // For keywords, the keyword containing the match
+  keyword?: string;
+}
+
+export interface PlatformTermViolation extends TermViolation {
+  // Platforms whose results have the violation
+  platforms: Platform[];
+}
+
+export interface RestrictedTermSettings {
+  // Extra terms from the user
+  customTerms: string[];
+  // Refuse CSV downloads while violations remain, instead of warning
+  blockExport: boolean;
+}
+
+export const DEFAULT_RESTRICTED_TERM_SETTINGS: RestrictedTermSettings = {
+  customTerms: [],
+  blockExport: false,
+};
+
+// Names that are also common words, such as Apple or Amazon, are left to the model pass
+const BRANDS = [
+  'Adidas', 'Airbnb', 'Audi', 'Barbie', 'BMW', 'Budweiser',
+  'Chanel', 'Coca-Cola', 'Disney', 'Facebook', 'Ferrari', 'Gucci', 'Google', 'Harley-Davidson',
+  'Harry Potter', 'Heineken', 'iMac', 'Instagram', 'iPad', 'iPhone', 'KFC', 'Lamborghini', 'Lego',
+  'Louis Vuitton', 'McDonald\'s', 'Mercedes-Benz', 'Microsoft', 'MacBook', 'Netflix', 'Nike',
+  'Nikon', 'Nintendo', 'Pepsi', 'Pixar', 'PlayStation', 'Pokemon', 'Porsche', 'Red Bull', 'Rolex',
+  'Samsung', 'Sony', 'Star Wars', 'Starbucks', 'TikTok', 'Toyota', 'Twitter', 'Uber',
+  'Volkswagen', 'WhatsApp', 'Xbox', 'YouTube',
+];
+
+const ARTISTS = [
+  'Andy Warhol', 'Banksy', 'Claude Monet', 'Frida Kahlo', 'Greg Rutkowski', 'Hayao Miyazaki',
+  'Leonardo da Vinci', 'Michelangelo', 'Pablo Picasso', 'Rembrandt', 'Salvador Dali',
+  'Studio Ghibli', 'Van Gogh',
+];
+
+// Phrases that credit a style or a generator rather than describe the image
+const PHRASES = ['in the style of', 'artstation', 'midjourney', 'octane render', 'unreal engine'];
+
+export const DEFAULT_RESTRICTED_TERMS: RestrictedTerm[] = [
+  ...BRANDS.map(term => ({ term, kind: 'brand' as const })),
+  ...ARTISTS.map(term => ({ term, kind: 'artist' as const })),
+  ...PHRASES.map(term => ({ term, kind: 'phrase' as const })),
+];
+
+/**
+ * Terms checked for an image processed for some platforms
+ * @param detected - Names the model found in this image's metadata
+ */
+export function getRestrictedTerms(platforms: Platform[], settings: RestrictedTermSettings, detected: string[] = []): RestrictedTerm[] {
+  const terms = [
+    ...DEFAULT_RESTRICTED_TERMS,
+    ...platforms.flatMap(platform => (getPlatformDefinition(platform).restrictedTerms || []).map(term => ({ term, kind: 'brand' as const }))),
+    ...settings.customTerms.map(term => ({ term, kind: 'custom' as const })),
+    ...detected.map(term => ({ term, kind: 'detected' as const })),
+  ];
+  // One entry per term, keeping the first kind it was listed with
+  const seen = new Set<string>();
+  return terms.filter(({ term }) => {
+    const key = term.trim().toLowerCase();
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+const patternCache = new Map<string, RegExp>();
+
+// Whole-word pattern where spaces, hyphens and apostrophes inside the term are optional
+function getTermPattern(term: string): RegExp {
+  let pattern = patternCache.get(term);
+  if (!pattern) {
+    const tokens = term.trim().split(/[\s\-']+/).map(token => token.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    pattern = new RegExp(`(?<![\\p{L}\\p{N}])${tokens.join('[\\s\\-\']?')}(?![\\p{L}\\p{N}])`, 'giu');
+    patternCache.set(term, pattern);
+  }
+  pattern.lastIndex = 0;
+  return pattern;
+}
+
+/**
+ * Finds restricted terms in a result's title, description and keywords
+ */
+export function findViolations(metadata: ImageMetadata | undefined, terms: RestrictedTerm[]): TermViolation[] {
+  if (!metadata) return [];
+  const violations: TermViolation[] = [];
+
+  for (const term of terms) {
+    for (const field of ['title', 'description'] as const) {
+      const match = metadata[field]?.match(getTermPattern(term.term));
+      if (match) {
+        violations.push({ field, term, match: match[0] });
+      }
+    }
+    for (const keyword of metadata.keywords || []) {
+      const match = keyword.match(getTermPattern(term.term));
+      if (match) {
+        violations.push({ field: 'keywords', term, match: match[0], keyword });
+      }
+    }
+  }
+  return violations;
+}
+
+/**
+ * Edit that removes a violation: the whole keyword, or the matched words from the text
+ */
+export function removeViolation(metadata: ImageMetadata, violation: TermViolation): Partial<ImageMetadata> {
+  if (violation.field === 'keywords') {
+    return {
+      keywords: metadata.keywords.filter(keyword => keyword !== violation.keyword),
+      pinnedKeywords: metadata.pinnedKeywords?.filter(keyword => keyword !== violation.keyword),
+    };
+  }
+  const text = (metadata[violation.field] || '')
+    .replace(getTermPattern(violation.term.term), '')
+    .replace(/\s{2,}/g, ' ')
+    .replace(/\s+([,.;:!?])/g, '$1')
+    .trim();
+  return { [violation.field]: text };
+}
+
+/**
+ * Finds restricted terms in the results each platform exports for an image
+ * A violation in several platforms' results is listed once, with each of those platforms.
+ */
+export function findPlatformViolations(
+  image: ProcessedImage,
+  platforms: Platform[],
+  settings: RestrictedTermSettings
+): PlatformTermViolation[] {
+  const violations = new Map<string, PlatformTermViolation>();
+  for (const platform of platforms) {
+    const terms = getRestrictedTerms([platform], settings, image.detectedTerms);
+    for (const violation of findViolations(getPlatformResult(image, platform), terms)) {
+      const key = [violation.field, violation.term.term.toLowerCase(), violation.keyword || ''].join('\n');
+      const existing = violations.get(key);
+      if (existing) {
+        existing.platforms.push(platform);
+      } else {
+        violations.set(key, { ...violation, platforms: [platform] });
+      }
+    }
+  }
+  return [...violations.values()];
+}
+
+/**
+ * Removes a violation from each platform's results it was found in, and from the shared result
+ */
+export function removePlatformViolation(image: ProcessedImage, violation: PlatformTermViolation): ProcessedImage {
+  if (!image.result) return image;
+  let updated: ProcessedImage = { ...image, result: { ...image.result, ...removeViolation(image.result, violation) } };
+  for (const platform of violation.platforms) {
+    const current = image.platformResults?.[platform];
+    if (current) {
+      updated = updateImageResult(updated, removeViolation(current, violation), platform);
+    }
+  }
+  return updated;
+}
@@ -0,0 +1,116 @@
+import { GenerationInfo, ImageMetadata, ProcessedImage } from './imageHelpers';
+import { createDatabaseOpener, requestToPromise, transactionDone } from './indexedDb';
+
+/**
+ * Results cached by file content and generation settings
+ *
+ * A file that was already processed with the same platforms, mode and limits reuses
+ * its results instead of calling the model (and using a credit) again. Entries are
+ * kept in IndexedDB; signed-in users also match their server history by the same key.
+ */
+
+export type CacheSettings = Pick<GenerationInfo, 'platforms' | 'mode' | 'limits'>;
+
+export interface CachedResult {
+  key: string;
+  savedAt: string;
+  result: ImageMetadata;
+  platformResults?: ProcessedImage['platformResults'];
+  generation: GenerationInfo;
+}
+
+const DB_NAME = 'metadata-result-cache';
+const DB_VERSION = 1;
+const RESULTS_STORE = 'results';
+// The oldest entries are dropped past this
+const MAX_ENTRIES = 1000;
+
+const openDatabase = createDatabaseOpener(DB_NAME, DB_VERSION, db => {
+  const store = db.createObjectStore(RESULTS_STORE, { keyPath: 'key' });
+  store.createIndex('savedAt', 'savedAt');
+});
+
+async function sha256Hex(data: BufferSource): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// SHA-256 of a file's bytes
+export async function hashFile(file: File): Promise<string> {
+  return sha256Hex(await file.arrayBuffer());
+}
+
+/**
+ * Key for a file's results under some settings
+ * The order platforms were selected in doesn't change the key.
+ */
+export function getResultCacheKey(contentHash: string, settings: CacheSettings): Promise<string> {
+  const { limits } = settings;
+  const normalized = JSON.stringify({
+    platforms: [...settings.platforms].sort(),
+    mode: settings.mode,
+    limits: [
+      limits.minTitleWords,
+      limits.maxTitleWords,
+      limits.minKeywords,
+      limits.maxKeywords,
+      limits.minDescriptionWords,
+      limits.maxDescriptionWords
+    ].map(limit => limit ?? null),
+  });
+  return sha256Hex(new TextEncoder().encode(`${contentHash}:${normalized}`));
+}
+
+// Key for an image's results, or null if it wasn't hashed or generated
+export async function getImageCacheKey(image: ProcessedImage): Promise<string | null> {
+  if (!image.contentHash || !image.generation) return null;
+  return getResultCacheKey(image.contentHash, image.generation);
+}
+
+export async function getCachedResult(key: string): Promise<CachedResult | null> {
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(RESULTS_STORE, 'readonly').objectStore(RESULTS_STORE);
+    const entry = await requestToPromise(store.get(key) as IDBRequest<CachedResult | undefined>);
+    return entry || null;
+  } catch (error) {
+    console.warn('Error reading the result cache:', error);
+    return null;
+  }
+}
+
+// Store an entry, dropping the oldest ones once the cache is full
+export async function putCachedResult(entry: CachedResult): Promise<void> {
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction(RESULTS_STORE, 'readwrite');
+    const store = transaction.objectStore(RESULTS_STORE);
+    const done = transactionDone(transaction);
+
+    store.put(entry);
+    const excess = (await requestToPromise(store.count())) - MAX_ENTRIES;
+    if (excess > 0) {
+      const oldest = await requestToPromise(store.index('savedAt').getAllKeys(null, excess));
+      oldest.forEach(key => store.delete(key));
+    }
+    await done;
+  } catch (error) {
+    console.warn('Error writing the result cache:', error);
+  }
+}
+
+/**
+ * Caches a completed image's results under its content hash and generation settings
+ */
+export async function cacheImageResult(image: ProcessedImage): Promise<void> {
+  const key = await getImageCacheKey(image);
+  if (!key || !image.result) return;
+
+  await putCachedResult({
+    key,
+    savedAt: new Date().toISOString(),
+    result: image.result,
+    platformResults: image.platformResults,
+    generation: image.generation,
+  });
+}
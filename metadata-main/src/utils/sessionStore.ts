@@ -0,0 +1,111 @@
+import { ProcessedImage } from './imageHelpers';
+import { createDatabaseOpener, requestToPromise, transactionDone } from './indexedDb';
+
+/**
+ * Saves the working batch to IndexedDB so uploads and results survive a reload
+ *
+ * Original files are kept in their own store and only written once; image records
+ * (status, results, history) are rewritten on every save. Previews aren't stored
+ * and are rebuilt from the files on restore.
+ */
+
+const DB_NAME = 'metadata-session';
+const DB_VERSION = 1;
+const FILES_STORE = 'files';
+const IMAGES_STORE = 'images';
+const META_STORE = 'meta';
+const SETTINGS_KEY = 'settings';
+
+// An image as stored, without its file and preview
+export type StoredImage = Omit<ProcessedImage, 'file' | 'previewUrl'> & { order: number };
+
+export interface SavedSession<Settings> {
+  savedAt: string;
+  settings: Settings;
+  images: (Omit<ProcessedImage, 'previewUrl'>)[];
+}
+
+const openDatabase = createDatabaseOpener(DB_NAME, DB_VERSION, db => {
+  db.createObjectStore(FILES_STORE);
+  db.createObjectStore(IMAGES_STORE, { keyPath: 'id' });
+  db.createObjectStore(META_STORE);
+});
+
+/**
+ * Saves the images and the settings they are processed with
+ * An empty batch clears the saved session.
+ */
+export async function saveSession<Settings>(images: ProcessedImage[], settings: Settings): Promise<void> {
+  if (images.length === 0) {
+    return clearSession();
+  }
+
+  const db = await openDatabase();
+  const transaction = db.transaction([FILES_STORE, IMAGES_STORE, META_STORE], 'readwrite');
+  const files = transaction.objectStore(FILES_STORE);
+  const records = transaction.objectStore(IMAGES_STORE);
+  const done = transactionDone(transaction);
+
+  const savedFileIds = new Set((await requestToPromise(files.getAllKeys())).map(String));
+  const currentIds = new Set(images.map(img => img.id));
+
+  // Only new files are written; removed images drop theirs
+  for (const image of images) {
+    if (!savedFileIds.has(image.id)) {
+      files.put(image.file, image.id);
+    }
+  }
+  for (const id of savedFileIds) {
+    if (!currentIds.has(id)) {
+      files.delete(id);
+    }
+  }
+
+  records.clear();
+  images.forEach(({ file, previewUrl, ...image }, order) => {
+    const record: StoredImage = { ...image, order };
+    records.put(record);
+  });
+
+  transaction.objectStore(META_STORE).put({ savedAt: new Date().toISOString(), settings }, SETTINGS_KEY);
+  return done;
+}
+
+// Load the saved batch, or null when there is none
+export async function loadSession<Settings>(): Promise<SavedSession<Settings> | null> {
+  const db = await openDatabase();
+  const transaction = db.transaction([FILES_STORE, IMAGES_STORE, META_STORE], 'readonly');
+
+  const [records, meta] = await Promise.all([
+    requestToPromise(transaction.objectStore(IMAGES_STORE).getAll() as IDBRequest<StoredImage[]>),
+    requestToPromise(transaction.objectStore(META_STORE).get(SETTINGS_KEY) as IDBRequest<{ savedAt: string; settings: Settings } | undefined>),
+  ]);
+  if (records.length === 0) return null;
+
+  const fileStore = transaction.objectStore(FILES_STORE);
+  const files = await Promise.all(records.map(record => requestToPromise(fileStore.get(record.id) as IDBRequest<File | undefined>)));
+
+  const images = records
+    .map((record, index) => ({ record, file: files[index] }))
+    // A record whose file is missing can't be shown or processed
+    .filter(({ file }) => file)
+    .sort((a, b) => a.record.order - b.record.order)
+    .map(({ record: { order, ...image }, file }) => ({ ...image, file }));
+
+  if (images.length === 0) return null;
+  return {
+    savedAt: meta?.savedAt || new Date().toISOString(),
+    settings: meta?.settings,
+    images,
+  };
+}
+
+export async function clearSession(): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([FILES_STORE, IMAGES_STORE, META_STORE], 'readwrite');
+  const done = transactionDone(transaction);
+  transaction.objectStore(FILES_STORE).clear();
+  transaction.objectStore(IMAGES_STORE).clear();
+  transaction.objectStore(META_STORE).clear();
+  return done;
+}
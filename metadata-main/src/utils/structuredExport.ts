@@ -0,0 +1,108 @@
+import { getPlatformResult, ImageMetadata, ProcessedImage } from './imageHelpers';
+import { getEmbeddableMetadata } from './embedMetadata';
+import { Platform } from './platformDefinitions';
+import { buildXmpPacket } from './xmp';
+
+/**
+ * XMP sidecar and JSON exports for DAMs and RAW/EPS workflows
+ */
+
+export type JsonExportFormat = 'json' | 'ndjson';
+
+export interface ImageExportRecord {
+  id: string;
+  file: {
+    name: string;
+    size: number;
+    type: string;
+    lastModified: string;
+  };
+  status: ProcessedImage['status'];
+  error?: string;
+  result?: ImageMetadata;
+  platforms: Partial<Record<Platform, ImageMetadata>>;
+  embeddedMetadata?: ProcessedImage['embeddedMetadata'];
+  generation?: ProcessedImage['generation'];
+  history?: ProcessedImage['history'];
+  historyIndex?: number;
+}
+
+export interface ImageExport {
+  generatedAt: string;
+  platforms: Platform[];
+  images: ImageExportRecord[];
+}
+
+/**
+ * Builds the export record for one image
+ * @param image - The processed image
+ * @param platforms - Platforms to include results for; defaults to the ones it was processed for
+ */
+export function buildImageRecord(image: ProcessedImage, platforms?: Platform[]): ImageExportRecord {
+  const platformResults: Partial<Record<Platform, ImageMetadata>> = {};
+  for (const platform of platforms || image.generation?.platforms || []) {
+    const result = getPlatformResult(image, platform);
+    if (result) {
+      platformResults[platform] = result;
+    }
+  }
+
+  return {
+    id: image.id,
+    file: {
+      name: image.file.name,
+      size: image.file.size,
+      type: image.file.type,
+      lastModified: new Date(image.file.lastModified).toISOString(),
+    },
+    status: image.status,
+    error: image.error,
+    result: image.result,
+    platforms: platformResults,
+    embeddedMetadata: image.embeddedMetadata,
+    generation: image.generation,
+    history: image.history,
+    historyIndex: image.historyIndex,
+  };
+}
+
+/**
+ * Serializes every image as JSON, or as NDJSON with one image record per line
+ * NDJSON has no envelope, so each line carries its own generation info.
+ */
+export function formatImagesAsJson(images: ProcessedImage[], platforms: Platform[], format: JsonExportFormat = 'json'): string {
+  const records = images.map(image => buildImageRecord(image, platforms));
+  if (format === 'ndjson') {
+    return records.map(record => JSON.stringify(record)).join('\n') + '\n';
+  }
+
+  const data: ImageExport = {
+    generatedAt: new Date().toISOString(),
+    platforms,
+    images: records,
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+// Sidecars share the image's base name, as Lightroom and Bridge expect
+export function getSidecarFilename(filename: string): string {
+  const dot = filename.lastIndexOf('.');
+  return `${dot > 0 ? filename.slice(0, dot) : filename}.xmp`;
+}
+
+/**
+ * Builds an XMP sidecar for each completed image
+ * Images sharing a base name (photo.jpg and photo.png) keep their extension to stay apart.
+ */
+export function buildXmpSidecars(images: ProcessedImage[]): { filename: string; content: string }[] {
+  const completed = images.filter(img => img.status === 'complete' && img.result);
+  const baseNames = completed.map(img => getSidecarFilename(img.file.name));
+
+  return completed.map((img, index) => {
+    const isDuplicate = baseNames.indexOf(baseNames[index]) !== baseNames.lastIndexOf(baseNames[index]);
+    return {
+      filename: isDuplicate ? `${img.file.name}.xmp` : baseNames[index],
+      content: buildXmpPacket(getEmbeddableMetadata(img)),
+    };
+  });
+}
@@ -0,0 +1,104 @@
+/**
+ * XMP packets holding stock metadata
+ */
+
+export interface EmbeddedMetadata {
+  title: string;
+  description: string;
+  keywords: string[];
+  categories?: string[];
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function langAlt(text: string): string {
+  return `<rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(text)}</rdf:li></rdf:Alt>`;
+}
+
+function bag(items: string[]): string {
+  return `<rdf:Bag>${items.map(item => `<rdf:li>${escapeXml(item)}</rdf:li>`).join('')}</rdf:Bag>`;
+}
+
+/**
+ * Builds an XMP packet with dc:title, dc:description and dc:subject
+ * Categories go in photoshop:SupplementalCategories, the XMP mirror of the IPTC field.
+ * @param metadata - The values to write
+ * @param wrapPacket - Add the xpacket processing instructions used inside image files
+ */
+export function buildXmpPacket(metadata: EmbeddedMetadata, wrapPacket = true): string {
+  const properties = [
+    metadata.title && `   <dc:title>${langAlt(metadata.title)}</dc:title>`,
+    metadata.title && `   <photoshop:Headline>${escapeXml(metadata.title)}</photoshop:Headline>`,
+    metadata.description && `   <dc:description>${langAlt(metadata.description)}</dc:description>`,
+    metadata.keywords.length > 0 && `   <dc:subject>${bag(metadata.keywords)}</dc:subject>`,
+    metadata.categories?.length && `   <photoshop:SupplementalCategories>${bag(metadata.categories)}</photoshop:SupplementalCategories>`,
+  ].filter(Boolean);
+
+  const xmpmeta = `<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about=""
+    xmlns:dc="http://purl.org/dc/elements/1.1/"
+    xmlns:photoshop="http://ns.adobe.com/photoshop/1.0/">
+${properties.join('\n')}
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>`;
+
+  if (!wrapPacket) {
+    return xmpmeta;
+  }
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+${xmpmeta}
+<?xpacket end="w"?>`;
+}
+
+const RDF_NS = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
+const DC_NS = 'http://purl.org/dc/elements/1.1/';
+const PHOTOSHOP_NS = 'http://ns.adobe.com/photoshop/1.0/';
+
+// Text of a property's rdf:li items, or its plain value
+function readProperty(doc: Document, namespace: string, name: string): string[] {
+  const element = doc.getElementsByTagNameNS(namespace, name)[0];
+  if (!element) {
+    // Simple properties may also be written as attributes of rdf:Description
+    const descriptions = Array.from(doc.getElementsByTagNameNS(RDF_NS, 'Description'));
+    const value = descriptions.map(description => description.getAttributeNS(namespace, name)).find(Boolean);
+    return value ? [value.trim()] : [];
+  }
+  const items = Array.from(element.getElementsByTagNameNS(RDF_NS, 'li'));
+  if (items.length === 0) {
+    return element.textContent?.trim() ? [element.textContent.trim()] : [];
+  }
+  // Prefer the default language for lang Alt values
+  const defaultItem = items.find(item => item.getAttribute('xml:lang') === 'x-default');
+  const values = element.getElementsByTagNameNS(RDF_NS, 'Alt').length > 0 ? [defaultItem || items[0]] : items;
+  return values.map(item => item.textContent?.trim() || '').filter(Boolean);
+}
+
+/**
+ * Reads title, description, keywords and categories from an XMP packet
+ * Returns null when the packet can't be parsed.
+ */
+export function parseXmpPacket(xml: string): EmbeddedMetadata | null {
+  const start = xml.indexOf('<x:xmpmeta');
+  const end = xml.lastIndexOf('</x:xmpmeta>');
+  const source = start !== -1 && end !== -1 ? xml.slice(start, end + '</x:xmpmeta>'.length) : xml;
+
+  const doc = new DOMParser().parseFromString(source, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    return null;
+  }
+
+  return {
+    title: readProperty(doc, DC_NS, 'title')[0] || readProperty(doc, PHOTOSHOP_NS, 'Headline')[0] || '',
+    description: readProperty(doc, DC_NS, 'description')[0] || '',
+    keywords: readProperty(doc, DC_NS, 'subject'),
+    categories: readProperty(doc, PHOTOSHOP_NS, 'SupplementalCategories'),
+  };
+}
@@ -0,0 +1,88 @@
+-- Create the generation_history table, one row per image and platform
+CREATE TABLE IF NOT EXISTS public.generation_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  filename TEXT NOT NULL,
+  platform TEXT NOT NULL,
+  title TEXT NOT NULL DEFAULT '',
+  description TEXT NOT NULL DEFAULT '',
+  keywords TEXT[] NOT NULL DEFAULT '{}',
+  categories TEXT[] NOT NULL DEFAULT '{}',
+  model TEXT,
+  thumbnail_path TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Search document over the text fields; array_to_string isn't immutable, so it is wrapped
+CREATE OR REPLACE FUNCTION public.generation_history_document(
+  filename TEXT,
+  title TEXT,
+  description TEXT,
+  keywords TEXT[]
+)
+RETURNS tsvector LANGUAGE sql IMMUTABLE AS $$
+  SELECT to_tsvector('simple',
+    coalesce(title, '') || ' ' ||
+    coalesce(description, '') || ' ' ||
+    coalesce(array_to_string(keywords, ' '), '') || ' ' ||
+    regexp_replace(coalesce(filename, ''), '[._-]+', ' ', 'g'))
+$$;
+
+ALTER TABLE public.generation_history
+  ADD COLUMN IF NOT EXISTS search tsvector
+  GENERATED ALWAYS AS (public.generation_history_document(filename, title, description, keywords)) STORED;
+
+-- Key of the file's content hash and generation settings, used to reuse results (see resultCache.ts)
+ALTER TABLE public.generation_history
+  ADD COLUMN IF NOT EXISTS cache_key TEXT;
+
+-- Platform fields outside the search document, so cached results can be restored in full
+ALTER TABLE public.generation_history
+  ADD COLUMN IF NOT EXISTS prompt TEXT,
+  ADD COLUMN IF NOT EXISTS base_model TEXT;
+
+-- dHash of the image, compared in the browser to flag near-duplicates of earlier uploads
+ALTER TABLE public.generation_history
+  ADD COLUMN IF NOT EXISTS perceptual_hash TEXT;
+
+-- Keywords the user pinned, kept in front when a cached result is restored
+ALTER TABLE public.generation_history
+  ADD COLUMN IF NOT EXISTS pinned_keywords TEXT[] NOT NULL DEFAULT '{}';
+
+-- Create indexes for full-text search and the platform/date filters
+CREATE INDEX IF NOT EXISTS idx_generation_history_search ON public.generation_history USING GIN (search);
+CREATE INDEX IF NOT EXISTS idx_generation_history_user_created ON public.generation_history(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_generation_history_user_platform ON public.generation_history(user_id, platform);
+CREATE INDEX IF NOT EXISTS idx_generation_history_user_cache_key ON public.generation_history(user_id, cache_key);
+
+-- Users can only see and manage their own history
+ALTER TABLE public.generation_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users read own history" ON public.generation_history;
+CREATE POLICY "Users read own history" ON public.generation_history
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users add own history" ON public.generation_history;
+CREATE POLICY "Users add own history" ON public.generation_history
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users delete own history" ON public.generation_history;
+CREATE POLICY "Users delete own history" ON public.generation_history
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Private bucket for thumbnails, stored under <user id>/
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('generation-thumbnails', 'generation-thumbnails', false)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Users read own thumbnails" ON storage.objects;
+CREATE POLICY "Users read own thumbnails" ON storage.objects
+  FOR SELECT USING (bucket_id = 'generation-thumbnails' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Users upload own thumbnails" ON storage.objects;
+CREATE POLICY "Users upload own thumbnails" ON storage.objects
+  FOR INSERT WITH CHECK (bucket_id = 'generation-thumbnails' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Users delete own thumbnails" ON storage.objects;
+CREATE POLICY "Users delete own thumbnails" ON storage.objects
+  FOR DELETE USING (bucket_id = 'generation-thumbnails' AND (storage.foldername(name))[1] = auth.uid()::text);